@@ -0,0 +1,71 @@
+import {
+  WalletSendTransactionError,
+  type SendTransactionOptions,
+} from "@solana/wallet-adapter-base";
+import type {
+  Connection,
+  SendOptions,
+  TransactionSignature,
+} from "@solana/web3.js";
+import type { ComputeBudgetOptions } from "./computeBudget";
+
+// "serial" sends in order and stops at the first failure, "parallel" sends
+// everything at once
+export type BroadcastMode = "serial" | "parallel";
+
+export type SignAndSendAllTransactionsOptions = SendTransactionOptions &
+  ComputeBudgetOptions & {
+    // defaults to "serial"
+    mode?: BroadcastMode;
+  };
+
+export type SignAndSendTransactionResult =
+  | { status: "sent"; signature: TransactionSignature }
+  | { status: "failed"; error: WalletSendTransactionError }
+  // serial mode only, not sent because an earlier transaction failed
+  | { status: "skipped" };
+
+async function sendOne(
+  connection: Connection,
+  rawTransaction: Uint8Array,
+  options?: SendOptions
+): Promise<SignAndSendTransactionResult> {
+  try {
+    const signature = await connection.sendRawTransaction(
+      rawTransaction,
+      options
+    );
+    return { status: "sent", signature };
+  } catch (error: any) {
+    return {
+      status: "failed",
+      error: new WalletSendTransactionError(error?.message, error),
+    };
+  }
+}
+
+// Sends already signed transactions, returning one result per transaction in
+// the order given. Never throws for a failed send.
+export async function broadcastTransactions(
+  connection: Connection,
+  rawTransactions: Uint8Array[],
+  mode: BroadcastMode = "serial",
+  options?: SendOptions
+): Promise<SignAndSendTransactionResult[]> {
+  if (mode === "parallel") {
+    return Promise.all(
+      rawTransactions.map((rawTransaction) =>
+        sendOne(connection, rawTransaction, options)
+      )
+    );
+  }
+  const results: SignAndSendTransactionResult[] = [];
+  for (const rawTransaction of rawTransactions) {
+    if (results.some(({ status }) => status === "failed")) {
+      results.push({ status: "skipped" });
+    } else {
+      results.push(await sendOne(connection, rawTransaction, options));
+    }
+  }
+  return results;
+}
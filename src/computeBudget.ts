@@ -0,0 +1,234 @@
+import { isVersionedTransaction } from "@solana/wallet-adapter-base";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type Connection,
+  type Transaction,
+  type TransactionInstruction,
+} from "@solana/web3.js";
+import { isAdvanceNonceInstruction } from "./nonce";
+import { loadAddressLookupTables } from "./policies";
+
+// ComputeBudgetInstruction discriminators
+const SET_COMPUTE_UNIT_LIMIT = 2;
+const SET_COMPUTE_UNIT_PRICE = 3;
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// getRecentPrioritizationFees accepts at most this many accounts
+const MAX_FEE_ACCOUNTS = 128;
+const DEFAULT_COMPUTE_UNIT_MARGIN = 0.1;
+
+export type PriorityFeeStrategy = {
+  // of the fees recently paid to lock the transaction's writable accounts,
+  // defaults to 50 (the median)
+  percentile?: number;
+  // upper bound in micro-lamports per compute unit
+  maxMicroLamports?: number;
+};
+
+export type ComputeBudgetOptions = {
+  // micro-lamports per compute unit, or estimated with getRecentPrioritizationFees
+  priorityFee?: number | PriorityFeeStrategy;
+  // a fixed limit, or "simulate" for the units used in simulation plus
+  // `computeUnitMargin`
+  computeUnitLimit?: number | "simulate";
+  // defaults to 0.1 (10%)
+  computeUnitMargin?: number;
+};
+
+type DecompiledTransaction = {
+  payerKey: PublicKey;
+  recentBlockhash: string;
+  instructions: TransactionInstruction[];
+  lookupTables: AddressLookupTableAccount[];
+};
+
+function isSigned(transaction: Transaction | VersionedTransaction): boolean {
+  return isVersionedTransaction(transaction)
+    ? transaction.signatures.some((signature) =>
+        signature.some((byte) => byte !== 0)
+      )
+    : transaction.signatures.some(({ signature }) => signature !== null);
+}
+
+async function decompile(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction
+): Promise<DecompiledTransaction> {
+  if (!isVersionedTransaction(transaction)) {
+    if (!transaction.feePayer || !transaction.recentBlockhash) {
+      throw new Error("Transaction needs a fee payer and recent blockhash");
+    }
+    return {
+      payerKey: transaction.feePayer,
+      recentBlockhash: transaction.recentBlockhash,
+      instructions: [...transaction.instructions],
+      lookupTables: [],
+    };
+  }
+  const lookupTables = await loadAddressLookupTables(connection, transaction);
+  const message = TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts: lookupTables,
+  });
+  return {
+    payerKey: message.payerKey,
+    recentBlockhash: message.recentBlockhash,
+    instructions: message.instructions,
+    lookupTables,
+  };
+}
+
+async function estimateComputeUnitLimit(
+  connection: Connection,
+  {
+    payerKey,
+    recentBlockhash,
+    instructions,
+    lookupTables,
+  }: DecompiledTransaction,
+  margin: number
+): Promise<number | undefined> {
+  const message = new TransactionMessage({
+    payerKey,
+    recentBlockhash,
+    // so the simulation isn't cut short by the default limit
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({
+        units: MAX_COMPUTE_UNIT_LIMIT,
+      }),
+      ...instructions,
+    ],
+  }).compileToV0Message(lookupTables);
+  const { value } = await connection.simulateTransaction(
+    new VersionedTransaction(message),
+    { sigVerify: false, replaceRecentBlockhash: true }
+  );
+  // a failing transaction is left for preflight to report
+  if (value.err || !value.unitsConsumed) {
+    return undefined;
+  }
+  return Math.min(
+    MAX_COMPUTE_UNIT_LIMIT,
+    Math.ceil(value.unitsConsumed * (1 + margin))
+  );
+}
+
+async function estimatePriorityFee(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  { percentile = 50, maxMicroLamports }: PriorityFeeStrategy
+): Promise<number> {
+  const writable = new Map<string, PublicKey>();
+  for (const { keys } of instructions) {
+    for (const { pubkey, isWritable } of keys) {
+      if (isWritable) writable.set(pubkey.toBase58(), pubkey);
+    }
+  }
+  const fees = (
+    await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: [...writable.values()].slice(0, MAX_FEE_ACCOUNTS),
+    })
+  )
+    .map(({ prioritizationFee }) => prioritizationFee)
+    .sort((a, b) => a - b);
+  if (fees.length === 0) {
+    return 0;
+  }
+  const index = Math.min(
+    fees.length - 1,
+    Math.max(0, Math.ceil((percentile / 100) * fees.length) - 1)
+  );
+  const fee = fees[index];
+  return maxMicroLamports === undefined ? fee : Math.min(fee, maxMicroLamports);
+}
+
+// Adds SetComputeUnitLimit / SetComputeUnitPrice instructions the transaction
+// doesn't already have. Legacy transactions are changed in place, v0 ones are
+// recompiled into a new transaction. Signed transactions are returned as is
+// since any change would invalidate their signatures.
+export async function applyComputeBudget<
+  T extends Transaction | VersionedTransaction,
+>(
+  connection: Connection,
+  transaction: T,
+  {
+    priorityFee,
+    computeUnitLimit,
+    computeUnitMargin = DEFAULT_COMPUTE_UNIT_MARGIN,
+  }: ComputeBudgetOptions
+): Promise<T> {
+  if (
+    (priorityFee === undefined && computeUnitLimit === undefined) ||
+    isSigned(transaction)
+  ) {
+    return transaction;
+  }
+  const decompiled = await decompile(connection, transaction);
+  const present = decompiled.instructions
+    .filter(({ programId }) => programId.equals(ComputeBudgetProgram.programId))
+    .map(({ data }) => data[0]);
+
+  const added: TransactionInstruction[] = [];
+  if (
+    computeUnitLimit !== undefined &&
+    !present.includes(SET_COMPUTE_UNIT_LIMIT)
+  ) {
+    const units =
+      computeUnitLimit === "simulate"
+        ? await estimateComputeUnitLimit(
+            connection,
+            decompiled,
+            computeUnitMargin
+          )
+        : computeUnitLimit;
+    if (units !== undefined) {
+      added.push(ComputeBudgetProgram.setComputeUnitLimit({ units }));
+    }
+  }
+  if (priorityFee !== undefined && !present.includes(SET_COMPUTE_UNIT_PRICE)) {
+    const microLamports =
+      typeof priorityFee === "number"
+        ? priorityFee
+        : await estimatePriorityFee(
+            connection,
+            decompiled.instructions,
+            priorityFee
+          );
+    if (microLamports > 0) {
+      added.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    }
+  }
+  if (added.length === 0) {
+    return transaction;
+  }
+
+  // AdvanceNonceAccount has to stay the first instruction
+  const index = isAdvanceNonceInstruction(decompiled.instructions[0]) ? 1 : 0;
+  if (!isVersionedTransaction(transaction)) {
+    transaction.instructions.splice(index, 0, ...added);
+    return transaction;
+  }
+  decompiled.instructions.splice(index, 0, ...added);
+  const message = new TransactionMessage({
+    payerKey: decompiled.payerKey,
+    recentBlockhash: decompiled.recentBlockhash,
+    instructions: decompiled.instructions,
+  });
+  return new VersionedTransaction(
+    transaction.version === "legacy"
+      ? message.compileToLegacyMessage()
+      : message.compileToV0Message(decompiled.lookupTables)
+  ) as T;
+}
+
+// Separates these options from the send options they're passed along with
+export function splitComputeBudgetOptions<O extends ComputeBudgetOptions>({
+  priorityFee,
+  computeUnitLimit,
+  computeUnitMargin,
+  ...rest
+}: O): [ComputeBudgetOptions, Omit<O, keyof ComputeBudgetOptions>] {
+  return [{ priorityFee, computeUnitLimit, computeUnitMargin }, rest];
+}
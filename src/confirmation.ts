@@ -0,0 +1,226 @@
+import type {
+  Connection,
+  SendOptions,
+  TransactionError,
+  TransactionSignature,
+} from "@solana/web3.js";
+import { VersionedTransaction } from "@solana/web3.js";
+import {
+  WalletSendTransactionError,
+  type SendTransactionOptions,
+} from "@solana/wallet-adapter-base";
+import type { ComputeBudgetOptions } from "./computeBudget";
+import { HyperLinkRequestAbortedError } from "./errors";
+import { getDurableNonceAccount } from "./nonce";
+
+export const DEFAULT_REBROADCAST_INTERVAL_MS = 2_000;
+export const DEFAULT_CONFIRMATION_TIMEOUT_MS = 120_000;
+
+export type ConfirmationProgress =
+  // once per broadcast, `attempt` starts at 1
+  | { type: "sent"; signature: TransactionSignature; attempt: number }
+  | { type: "processed"; signature: TransactionSignature; slot: number }
+  | { type: "confirmed"; signature: TransactionSignature; slot: number }
+  | {
+      type: "expired";
+      signature: TransactionSignature;
+      lastValidBlockHeight: number | undefined;
+    };
+
+export type SendAndConfirmTransactionOptions = SendTransactionOptions &
+  ComputeBudgetOptions & {
+    // defaults to "confirmed"
+    commitment?: "confirmed" | "finalized";
+    // how often to resend the signed bytes while waiting, defaults to 2s
+    rebroadcastIntervalMs?: number;
+    // when the blockhash expires. Taken from a legacy transaction or fetched
+    // with its blockhash if unset, otherwise the blockhash is polled instead.
+    // Ignored for durable nonce transactions, which expire once their nonce
+    // is advanced.
+    lastValidBlockHeight?: number;
+    // give up waiting after this long, even if the RPC keeps failing or the
+    // transaction never expires, defaults to 2 minutes
+    confirmationTimeoutMs?: number;
+    // stop waiting, rejects with HyperLinkRequestAbortedError
+    signal?: AbortSignal;
+    onProgress?: (progress: ConfirmationProgress) => void;
+  };
+
+export type SendAndConfirmTransactionResult =
+  | { status: "confirmed"; signature: TransactionSignature; slot: number }
+  // landed, but the transaction itself failed
+  | {
+      status: "failed";
+      signature: TransactionSignature;
+      slot: number;
+      error: TransactionError;
+    }
+  // the blockhash expired (or the nonce was advanced) before the transaction
+  // landed, safe to re-sign
+  | {
+      status: "expired";
+      signature: TransactionSignature;
+      lastValidBlockHeight: number | undefined;
+    }
+  // gave up after `confirmationTimeoutMs`. It may still land, so check the
+  // signature before signing it again.
+  | { status: "unconfirmed"; signature: TransactionSignature };
+
+type ConfirmOptions = Pick<
+  SendAndConfirmTransactionOptions,
+  | "commitment"
+  | "rebroadcastIntervalMs"
+  | "lastValidBlockHeight"
+  | "confirmationTimeoutMs"
+  | "signal"
+  | "onProgress"
+> & { sendOptions?: SendOptions };
+
+// resolves early when `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timeout = setTimeout(done, signal?.aborted ? 0 : ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+
+// Sends already signed bytes and keeps resending them until they reach
+// `commitment`, the blockhash expires or `confirmationTimeoutMs` passes. The
+// first send throws a WalletSendTransactionError and aborting throws a
+// HyperLinkRequestAbortedError; failed status polls are retried.
+// Durable nonce transactions are resent until their nonce changes.
+export async function sendWithRebroadcast(
+  connection: Connection,
+  rawTransaction: Uint8Array,
+  {
+    commitment = "confirmed",
+    rebroadcastIntervalMs = DEFAULT_REBROADCAST_INTERVAL_MS,
+    lastValidBlockHeight,
+    confirmationTimeoutMs = DEFAULT_CONFIRMATION_TIMEOUT_MS,
+    signal,
+    onProgress,
+    sendOptions,
+  }: ConfirmOptions = {}
+): Promise<SendAndConfirmTransactionResult> {
+  const abortedError = () =>
+    new HyperLinkRequestAbortedError("sendAndConfirmTransaction");
+  if (signal?.aborted) {
+    throw abortedError();
+  }
+  const deadline = Date.now() + confirmationTimeoutMs;
+  let signature: TransactionSignature;
+  try {
+    signature = await connection.sendRawTransaction(
+      rawTransaction,
+      sendOptions
+    );
+  } catch (error: any) {
+    throw new WalletSendTransactionError(error?.message, error);
+  }
+  let attempt = 1;
+  onProgress?.({ type: "sent", signature, attempt });
+
+  const transaction = VersionedTransaction.deserialize(rawTransaction);
+  const { recentBlockhash } = transaction.message;
+  const nonceAccount = getDurableNonceAccount(transaction);
+  if (nonceAccount) {
+    lastValidBlockHeight = undefined;
+  }
+  let processed = false;
+
+  // the final result, "landed" while waiting for `commitment`, or undefined
+  // if the transaction should be resent
+  const poll = async (): Promise<
+    SendAndConfirmTransactionResult | "landed" | undefined
+  > => {
+    const {
+      value: [status],
+    } = await connection.getSignatureStatuses([signature]);
+    if (status) {
+      if (status.err) {
+        return {
+          status: "failed",
+          signature,
+          slot: status.slot,
+          error: status.err,
+        };
+      }
+      if (!processed) {
+        processed = true;
+        onProgress?.({ type: "processed", signature, slot: status.slot });
+      }
+      if (
+        status.confirmationStatus === "finalized" ||
+        (commitment === "confirmed" &&
+          status.confirmationStatus === "confirmed")
+      ) {
+        onProgress?.({ type: "confirmed", signature, slot: status.slot });
+        return { status: "confirmed", signature, slot: status.slot };
+      }
+      // landed, resending won't help
+      return "landed";
+    }
+
+    const expired = nonceAccount
+      ? (await connection.getNonce(nonceAccount, "confirmed"))?.nonce !==
+        recentBlockhash
+      : lastValidBlockHeight !== undefined
+        ? (await connection.getBlockHeight("confirmed")) > lastValidBlockHeight
+        : !(
+            await connection.isBlockhashValid(recentBlockhash, {
+              commitment: "confirmed",
+            })
+          ).value;
+    if (!expired) {
+      return undefined;
+    }
+    // it may have landed since the status check
+    const {
+      value: [lastStatus],
+    } = await connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
+    if (lastStatus) {
+      return "landed";
+    }
+    onProgress?.({ type: "expired", signature, lastValidBlockHeight });
+    return { status: "expired", signature, lastValidBlockHeight };
+  };
+
+  while (Date.now() < deadline) {
+    await sleep(Math.min(rebroadcastIntervalMs, deadline - Date.now()), signal);
+    if (signal?.aborted) {
+      throw abortedError();
+    }
+
+    let result: Awaited<ReturnType<typeof poll>>;
+    try {
+      result = await poll();
+    } catch {
+      // the RPC failed, not the transaction; poll again next round
+      continue;
+    }
+    if (result === "landed") {
+      continue;
+    }
+    if (result) {
+      return result;
+    }
+
+    try {
+      await connection.sendRawTransaction(rawTransaction, {
+        ...sendOptions,
+        skipPreflight: true,
+        maxRetries: 0,
+      });
+      onProgress?.({ type: "sent", signature, attempt: ++attempt });
+    } catch {
+      // e.g. "already processed", the next status check settles it
+    }
+  }
+  return { status: "unconfirmed", signature };
+}
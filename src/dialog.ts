@@ -1,9 +1,9 @@
 import { htmlToElement } from "./embedUtils";
-import { HYPERLINK_BUILD_ENV_TYPE } from "./interfaces";
 import { getCloseButtonUrl } from "./utils";
 
 
-export function showDialog(buildEnv: HYPERLINK_BUILD_ENV_TYPE, html: string) {
+// `origin` is where the wallet and its assets are hosted
+export function showDialog(origin: string, html: string) {
   const styleDiv = htmlToElement<HTMLDivElement>(
     "<style>" +
       "#hyperLinkAlert__close-btn {" +
@@ -49,7 +49,7 @@ export function showDialog(buildEnv: HYPERLINK_BUILD_ENV_TYPE, html: string) {
   window.document.head.appendChild(styleDiv);
   const closeButton = htmlToElement(
     `<div id="hyperLinkAlert__close-btn"><img id="hyperLinkAlert__close-btn-image" src="${getCloseButtonUrl(
-      buildEnv
+      origin
     )}"/></div>`
   );
   closeButton.addEventListener("click", () => {
@@ -21,7 +21,6 @@ import type { HYPERLINK_BUILD_ENV_TYPE } from "./interfaces";
 import {
   checkAndAttachHyperLinkInstance,
   getCloseButtonUrl,
-  getHyperLinkUrl,
   iFrameUrl,
   isElement,
   removePreviousWindowRef,
@@ -29,11 +28,77 @@ import {
 } from "./utils";
 import type {
   CloseFn,
+  PopupOptions,
   PostFn,
+  RequestOptions,
   WindowCallbacks,
   WindowOpenParams,
 } from "./window";
-import { CallbackType, WindowCommunicator } from "./window";
+import {
+  HYPERLINK_CAPABILITY,
+  negotiateProtocol,
+  PROTOCOL_VERSION,
+  SUPPORTED_CAPABILITIES,
+  type HyperLinkCapability,
+  type NegotiatedProtocol,
+  type OutgoingMessageOf,
+  type ReplyOf,
+  type RequestPayload,
+  type RequestType,
+} from "./protocol";
+import {
+  HyperLinkInvalidRequestError,
+  HyperLinkNotAllowlistedError,
+  HyperLinkPopupBlockedError,
+  HyperLinkSigningError,
+  HyperLinkSimulationError,
+  HyperLinkTransactionModifiedError,
+  HyperLinkUnsafeMessageError,
+  HyperLinkUnsupportedCapabilityError,
+  HyperLinkUserRejectedError,
+  HyperLinkWalletUnavailableError,
+} from "./errors";
+import { CallbackType, PopupMonitor, WindowCommunicator } from "./window";
+import { WindowTransport, type HyperLinkTransport } from "./transport";
+import { Logger } from "./logger";
+import { RequestQueue, type RequestQueueState } from "./requestQueue";
+import {
+  simulateTransactionPreview,
+  type SimulationOptions,
+  type TransactionPreview,
+} from "./simulation";
+import { enforcePolicies, type TransactionPolicy } from "./policies";
+import { InstructionDecoderRegistry } from "./instructionDecoders";
+import { setDurableNonceBlockhash } from "./nonce";
+import { verifyWalletSignature } from "./signatures";
+import {
+  detectMessageFormat,
+  encodeOffchainMessage,
+  isTransactionBytes,
+  type MessageFormat,
+  type SignMessageOptions,
+} from "./offchainMessage";
+import { applySignInDefaults, type SignInDefaults } from "./signInDefaults";
+import type { HyperLinkSignInOutput } from "./siws";
+import {
+  diffTransactionMessages,
+  type WalletModificationPolicy,
+} from "./transactionDiff";
+import {
+  applyComputeBudget,
+  splitComputeBudgetOptions,
+  type ComputeBudgetOptions,
+} from "./computeBudget";
+import {
+  sendWithRebroadcast,
+  type SendAndConfirmTransactionOptions,
+  type SendAndConfirmTransactionResult,
+} from "./confirmation";
+import {
+  broadcastTransactions,
+  type SignAndSendAllTransactionsOptions,
+  type SignAndSendTransactionResult,
+} from "./broadcast";
 import {
   EventEmitter,
   WalletSendTransactionError,
@@ -72,6 +137,7 @@ export interface HyperLinkEmbedEvents {
   disconnect(...args: unknown[]): unknown;
   accountChanged(...args: unknown[]): unknown;
   accountChanged(newPublicKeyString: string): unknown;
+  requestQueueChanged(state: RequestQueueState): unknown;
 }
 
 export enum PopupType {
@@ -81,6 +147,34 @@ export enum PopupType {
   NOT_ALLOWLISTED,
 }
 
+export type HyperLinkEmbedOptions = {
+  // default timeout for signing requests, none if unset
+  requestTimeoutMs?: number;
+  // how to reach the iframe, window.postMessage if unset
+  transport?: HyperLinkTransport;
+  // wallet host origins, the first one is primary; ignored with a custom transport
+  trustedOrigins?: string[];
+  // size and placement of the login popup
+  popup?: PopupOptions;
+  logger?: Logger;
+  // simulate transactions before prompting, off if unset
+  simulation?: SimulationOptions;
+  // default priority fee and compute unit limit for transactions sent through the wallet
+  computeBudget?: ComputeBudgetOptions;
+  // checked before every transaction is posted to the iframe; the adapter
+  // passes its own list so policies added later still apply
+  policies?: readonly TransactionPolicy[];
+  // what the wallet may change in a transaction before signing it, nothing
+  // by default
+  allowWalletModifications?: WalletModificationPolicy;
+  // decodes instructions into the summaries sent with sign requests
+  decoders?: InstructionDecoderRegistry;
+  // fields filled in for sign-ins that leave them unset; inputs are signed as
+  // given if unset
+  signInDefaults?: SignInDefaults;
+};
+
+const DISCONNECT_TIMEOUT_MS = 5_000;
 const EDGE_OFFSET = 20;
 const EXPAND_THRESHOLD = 20;
 const MOBILE_BREAKPOINT = 476;
@@ -838,7 +932,6 @@ function setupWalletWidget({
     : WIDGET_DIMENSION.HEIGHT.DESKTOP + EDGE_OFFSET;
   const initialWidgetYPosition = vh - initialYOffset;
   const widgetElementId = widgetId(hyperLinkSessionId);
-  console.log("widgetClassNames", widgetClassNames);
   const htmlString = `
   <div id="${widgetElementId}" style="transform: translate(20px, calc(100svh - ${initialYOffset}px)); pointer-events: auto; touch-action: none; -ms-touch-action: none; animation: enter 0.6s ease-out 1; border: 1px solid rgba(11, 45, 69, 0.04); background: rgba(255, 255, 255, 0.70); box-shadow: 0px 4px 20px 0px rgba(0, 0, 0, 0.10); color: #17303E; display: flex; justify-content: center; align-items: center; flex-direction: column; transition: background ease-out 0.15s, color ease-out 0.15s; width: 101px; height: 72px; border-radius: 12px; text-align: center; position: fixed; cursor: grab; z-index: 2147483645; top: 0px; left: 0px; backdrop-filter: blur(5px); -webkit-backdrop-filter: blur(5px); font-family: var(--font-inter), sans-serif; font-size: 12px; font-weight: 600; line-height: 16px; -webkit-font-smoothing: antialiased; -moz-osx-font-smoothing: grayscale;" data-x="20" data-y="${initialWidgetYPosition}" data-x-prev="20" data-vh="${vh}">
 <div class="hyperlinkWidget_pulse"></div>
@@ -1037,6 +1130,17 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   private _walletAdapterNetwork:
     | WalletAdapterNetwork.Mainnet
     | WalletAdapterNetwork.Devnet;
+  private readonly requestTimeoutMs: number | undefined;
+  private readonly popupOptions: PopupOptions | undefined;
+  private readonly simulation: SimulationOptions | undefined;
+  private readonly computeBudget: ComputeBudgetOptions | undefined;
+  private readonly policies: readonly TransactionPolicy[];
+  private readonly allowWalletModifications: WalletModificationPolicy;
+  private readonly decoders: InstructionDecoderRegistry;
+  private readonly signInDefaults: SignInDefaults | undefined;
+  private readonly logger: Logger;
+  private readonly requestQueue = new RequestQueue();
+  private _protocol: NegotiatedProtocol | undefined;
 
   constructor(
     title: string,
@@ -1047,7 +1151,20 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     walletAdapterNetwork:
       | WalletAdapterNetwork.Mainnet
       | WalletAdapterNetwork.Devnet,
-    isDisallowed: () => boolean
+    isDisallowed: () => boolean,
+    {
+      requestTimeoutMs,
+      transport,
+      trustedOrigins,
+      popup,
+      logger = new Logger(),
+      simulation,
+      computeBudget,
+      policies = [],
+      allowWalletModifications = false,
+      decoders = new InstructionDecoderRegistry(),
+      signInDefaults,
+    }: HyperLinkEmbedOptions = {}
   ) {
     super();
     this.title = title;
@@ -1057,13 +1174,19 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     this.publicKeyString = prevPublicKey || undefined;
     this.buildEnv = buildEnv;
     this.clientId = clientId;
+    this.logger = logger.child("embed");
+    this.requestQueue.on("change", (state) => {
+      this.emit("requestQueueChanged", state);
+    });
     this.windowCommunicator = new WindowCommunicator(
       this.buildEnv,
       (onClick: () => void, onClose: () => void, popupType: PopupType) => {
         this._createPopupBlockAlert(onClick, onClose, popupType);
-      }
+      },
+      transport ?? new WindowTransport(buildEnv, trustedOrigins),
+      logger
     );
-    const cssLink = new URL("/css/widget.css", getHyperLinkUrl(this.buildEnv));
+    const cssLink = new URL("/css/widget.css", this.windowCommunicator.origin);
     this.styleLink = htmlToElement<HTMLLinkElement>(
       `<link href="${cssLink.toString()}" rel="stylesheet" type="text/css">`
     );
@@ -1071,7 +1194,19 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     this.isDisallowed = isDisallowed;
     this.dAppSessionId = dAppSessionId;
     this.hyperLinkSessionId = uuid();
+    this.windowCommunicator.setSession({
+      dAppSessionId: this.dAppSessionId,
+      hyperLinkSessionId: this.hyperLinkSessionId,
+    });
     this._walletAdapterNetwork = walletAdapterNetwork;
+    this.requestTimeoutMs = requestTimeoutMs;
+    this.popupOptions = popup;
+    this.simulation = simulation;
+    this.computeBudget = computeBudget;
+    this.policies = policies;
+    this.allowWalletModifications = allowWalletModifications;
+    this.decoders = decoders;
+    this.signInDefaults = signInDefaults;
     this.draggableWidgetWindowResizeListener = () => {
       if (this._isDragging || !this.hyperLinkDraggableWidget) return;
       const target = this.hyperLinkDraggableWidget as HTMLDivElement;
@@ -1126,6 +1261,30 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     return !!this.publicKeyString;
   }
 
+  // Protocol version agreed with the iframe during the ready/ack handshake
+  get protocolVersion(): number | undefined {
+    return this._protocol?.version;
+  }
+
+  get capabilities(): ReadonlySet<HyperLinkCapability> {
+    return this._protocol?.capabilities ?? new Set();
+  }
+
+  // Wallet requests waiting for the one the iframe is currently showing
+  get requestQueueState(): RequestQueueState {
+    return this.requestQueue.state;
+  }
+
+  supports(capability: HyperLinkCapability): boolean {
+    return this.capabilities.has(capability);
+  }
+
+  private assertCapability(capability: HyperLinkCapability, feature: string) {
+    if (!this.supports(capability)) {
+      throw new HyperLinkUnsupportedCapabilityError(capability, feature);
+    }
+  }
+
   private extendSession = () => {
     if (!this.hyperLinkIframe?.contentWindow) {
       return;
@@ -1133,6 +1292,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     this.windowCommunicator.singlePostToWindow(
       this.hyperLinkIframe.contentWindow,
       {
+        type: "extend_session",
         message: "extend_session",
       }
     );
@@ -1159,14 +1319,14 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   private getGreenCheckmarkLogoUrl(): string {
     return new URL(
       "adapter-green-checkmark.svg",
-      getHyperLinkUrl(this.buildEnv)
+      this.windowCommunicator.origin
     ).toString();
   }
 
   private getHyperLinkLogoUrl(): string {
     const logoUrl = new URL(
       "adapter-hyperlink-logo.svg",
-      getHyperLinkUrl(this.buildEnv)
+      this.windowCommunicator.origin
     );
     return logoUrl.toString();
   }
@@ -1174,7 +1334,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   private getWhiteHyperLinkLogoUrl(): string {
     const logoUrl = new URL(
       "brand-assets/logo/logomark/svg/hyperlink_logomark_white.svg",
-      getHyperLinkUrl(this.buildEnv)
+      this.windowCommunicator.origin
     );
     return logoUrl.toString();
   }
@@ -1182,7 +1342,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   private getDarkHyperLinkLogoUrl(): string {
     const logoUrl = new URL(
       "hyperlink/hyperlink-logo-dark.svg",
-      getHyperLinkUrl(this.buildEnv)
+      this.windowCommunicator.origin
     );
     return logoUrl.toString();
   }
@@ -1190,7 +1350,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   private getGoogleLogoUrl(): string {
     const logoUrl = new URL(
       "adapter-google-logo.svg",
-      getHyperLinkUrl(this.buildEnv)
+      this.windowCommunicator.origin
     );
     return logoUrl.toString();
   }
@@ -1198,14 +1358,13 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   private getBackgroundImageUrl(): string {
     const logoUrl = new URL(
       "adapter-modal-background.png",
-      getHyperLinkUrl(this.buildEnv)
+      this.windowCommunicator.origin
     );
     return logoUrl.toString();
   }
 
   private popupTypeMessage = (popupType: PopupType) => {
-    const baseUrl = getHyperLinkUrl(this.buildEnv);
-    console.log("baseUrl", baseUrl);
+    const baseUrl = this.windowCommunicator.origin;
     switch (popupType) {
       case PopupType.MESSAGE:
         return {
@@ -1345,7 +1504,9 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       '<div id="hyperLinkAlert__btn-container"></div>'
     );
 
-    const closeButtonIconUrl = getCloseButtonUrl(this.buildEnv);
+    const closeButtonIconUrl = getCloseButtonUrl(
+      this.windowCommunicator.origin
+    );
     const closeButton = htmlToElement(
       `<div id="hyperLinkAlert__close-btn"><img id="hyperLinkAlert__close-btn-image" src="${closeButtonIconUrl}"/></div>`
     );
@@ -1448,7 +1609,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   }> {
     if (this.isDisallowed()) {
       this.notifyDisallowed();
-      return Promise.reject(new Error("Application not allowlisted"));
+      return Promise.reject(new HyperLinkNotAllowlistedError());
     }
 
     const queryParams = this.getQueryParams();
@@ -1460,27 +1621,29 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       autoConnect = true;
     }
     let windowParams: WindowOpenParams | undefined = undefined;
+    let popupMonitor: PopupMonitor | undefined = undefined;
     const isThemed = theme !== "system";
     if (directConnect && !promptHyperLinkAutoConnectFromRedirect) {
       windowParams = this.windowCommunicator.openPopup(
         `/embedded_adapter_login?ref=${window.location.origin}${
           //Note this is how this how hyperlink is connecting
           isThemed ? `&theme=${theme}` : ""
-        }`
+        }`,
+        this.popupOptions
       );
-      if (!windowParams.popup || windowParams.popup.closed) {
+      popupMonitor = new PopupMonitor(windowParams.popup);
+      if (popupMonitor.blocked) {
         directConnect = false;
         forceClickToContinue = true;
       }
     }
-    console.log(windowParams);
+    this.logger.debug("opened login popup", windowParams);
     const siwsInputPromise =
       typeof siwsInput === "function"
         ? siwsInput()
         : siwsInput
           ? Promise.resolve(siwsInput)
           : undefined;
-    console.log("121");
     const hyperLinkUrl = iFrameUrl({
       buildEnv: this.buildEnv,
       clientId: this.clientId,
@@ -1490,8 +1653,9 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       theme: theme && isThemed ? theme : undefined,
       hideDraggableWidget,
       hideWalletOnboard,
+      hostUrl: this.windowCommunicator.origin,
     });
-    console.log("1212121", hyperLinkUrl);
+    this.logger.debug("loading iframe", hyperLinkUrl);
     this.hyperLinkIframe = htmlToElement<HTMLIFrameElement>(
       `<iframe
         id="${iframeId(this.hyperLinkSessionId)}"
@@ -1503,7 +1667,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       ></iframe>`
     );
 
-    const cssLink = new URL("/css/widget.css", getHyperLinkUrl(this.buildEnv));
+    const cssLink = new URL("/css/widget.css", this.windowCommunicator.origin);
     this.styleLink = htmlToElement<HTMLLinkElement>(
       `<link href="${cssLink.toString()}" rel="stylesheet" type="text/css">`
     );
@@ -1517,12 +1681,11 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     );
 
     let fnsAtEnd: (() => void)[] = [];
-    let checkPopupClosed: NodeJS.Timeout | undefined = undefined;
     let checkUrlForPausedExecution: NodeJS.Timeout | undefined = undefined;
     let iframeNotLoading: NodeJS.Timeout | undefined = undefined;
     let doCheckUrlForPausedExecution = false;
     fnsAtEnd.push(() => {
-      clearInterval(checkPopupClosed);
+      popupMonitor?.dispose();
       clearInterval(checkUrlForPausedExecution);
       clearInterval(iframeNotLoading);
     });
@@ -1535,7 +1698,6 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
         pk: string;
         siwsOutput?: SolanaSignInOutput;
       }>((resolve, reject) => {
-        // console.log("actually RUNNING handle setup");
         if (directConnect) {
           checkUrlForPausedExecution = setInterval(() => {
             if (!doCheckUrlForPausedExecution) {
@@ -1543,70 +1705,67 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
             }
             try {
               const url = this.hyperLinkIframe?.contentWindow?.document.URL;
-
-              console.log("url", url);
               if (url === "about:blank") {
-                console.log("got in");
-                console.error("iframe is not loading");
+                this.logger.warn("iframe is not loading");
                 // it is possible in mobile safari that the iframe in the background tab doesn't
                 // finish loading before the new window is opened. The window will then auto-close
                 // due to a timeout, and we'll show the login page instead.
                 clearInterval(checkUrlForPausedExecution);
                 iframeNotLoading = setInterval(() => {
-                  windowParams?.popup.postMessage(
-                    { type: "iframe_not_loading" },
-                    getHyperLinkUrl(this.buildEnv)
-                  );
+                  if (windowParams) {
+                    this.windowCommunicator.singlePostToWindow(
+                      windowParams.popup,
+                      { type: "iframe_not_loading" }
+                    );
+                  }
                 }, 1_000);
               }
             } catch (error) {
               // best effort, no need to handle
             }
           }, 300);
-          checkPopupClosed = setInterval(() => {
-            if (!windowParams?.popup || windowParams?.popup.closed) {
-              clearInterval(checkPopupClosed);
-              try {
-                const url = this.hyperLinkIframe?.contentWindow?.document?.URL;
-                if (url === "about:blank") {
-                  fnsAtEnd.forEach((fn) => fn());
-                  fnsAtEnd = [];
-                  this.clearElements();
-                  this.init({
-                    directConnect: false,
-                    autoConnect: true,
-                    forceClickToContinue: true,
-                    showErrorMessage: true,
-                    theme,
-                    siwsInput,
-                    hideDraggableWidget,
-                    hideWalletOnboard,
-                    onWalletHandshake,
+          // the user closed the login popup before finishing
+          popupMonitor?.on("closed", () => {
+            try {
+              const url = this.hyperLinkIframe?.contentWindow?.document?.URL;
+              if (url === "about:blank") {
+                fnsAtEnd.forEach((fn) => fn());
+                fnsAtEnd = [];
+                this.clearElements();
+                this.init({
+                  directConnect: false,
+                  autoConnect: true,
+                  forceClickToContinue: true,
+                  showErrorMessage: true,
+                  theme,
+                  siwsInput,
+                  hideDraggableWidget,
+                  hideWalletOnboard,
+                  onWalletHandshake,
+                })
+                  .then((result) => {
+                    resolve(result);
                   })
-                    .then((result) => {
-                      resolve(result);
-                    })
-                    .catch((error) => {
-                      reject(error);
-                    });
-                  return;
-                }
-              } catch {
-                // best effort, no need to handle
+                  .catch((error) => {
+                    reject(error);
+                  });
+                return;
               }
+            } catch {
+              // best effort, no need to handle
+            }
 
-              if (this.hyperLinkIframe?.contentWindow) {
-                this.windowCommunicator.singlePostToWindow(
-                  this.hyperLinkIframe.contentWindow,
-                  {
-                    type: "click_to_continue",
-                    title: this.title,
-                  }
-                );
-                this.showIframe();
-              }
+            if (this.hyperLinkIframe?.contentWindow) {
+              this.windowCommunicator.singlePostToWindow(
+                this.hyperLinkIframe.contentWindow,
+                {
+                  type: "click_to_continue",
+                  title: this.title,
+                }
+              );
+              this.showIframe();
             }
-          }, 300);
+          });
         }
         try {
           if (this.hyperLinkIframe === undefined) {
@@ -1622,16 +1781,16 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
             throw Error("hyperLinkStyles is undefined");
           }
           // const start = Date.now();
-          // console.log("appending child to iframe at:", start);
           window.document.head.appendChild(this.styleLink);
           window.document.body.appendChild(this.hyperLinkIframe);
+          this.windowCommunicator.attachIframe(this.hyperLinkIframe);
           window.document.body.appendChild(this.hyperLinkAlertContainer);
           window.document.body.appendChild(this.hyperLinkToastContainer);
 
           if (this.isDisallowed()) {
             this.notifyDisallowed();
             windowParams?.popup?.close();
-            reject(new Error("Application not allowlisted"));
+            reject(new HyperLinkNotAllowlistedError());
             return;
           }
 
@@ -1640,15 +1799,10 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
           let requestAnimationFrameTimeout: NodeJS.Timeout | undefined =
             undefined;
           const callback = (timestamp: number) => {
-            // console.log("timestamp", timestamp);
             if (timestamp) {
               clearTimeout(requestAnimationFrameTimeout);
               doCheckUrlForPausedExecution = false;
               setTimeout(() => {
-                // console.log(
-                //   "started nested request animation frame",
-                //   Date.now()
-                // );
                 // It is possible that the iframe loads a bit at first,
                 // so we set doCheckUrlForPausedExecution to false. However,
                 // we try requesting animation frame again shortly after
@@ -1659,7 +1813,6 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                 // iframe url check against about:blank in the `checkUrlForPausedExecution`
                 // interval above
                 requestAnimationFrameTimeout = setTimeout(() => {
-                  // console.log("Hit timeout at", Date.now());
                   doCheckUrlForPausedExecution = true;
                 }, 500);
                 window.requestAnimationFrame(callback);
@@ -1689,15 +1842,13 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                   {
                     window_ack: {
                       type: CallbackType.DEFAULT,
-                      cb: async (data: any) => {
-                        // console.log("received window ack", data);
+                      cb: async (data) => {
                         clearInterval(postReadyInterval);
                       },
                     },
                     done: {
                       type: CallbackType.DEFAULT,
-                      cb: async (data: any) => {
-                        // console.log("!!received done", data);
+                      cb: async (data) => {
                         this.showIframe();
                         close();
                       },
@@ -1705,32 +1856,44 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                   },
                   ["done"]
                 );
-              // console.log("got window post function!!");
               windowPost = post;
             }
 
-            // console.log("!!! setting up handhsake with iframe!!");
             const { close: closeIframeChannel } =
               this.windowCommunicator.setupHandshakeWithIframe(
                 this.hyperLinkIframe,
                 {
                   ready: {
                     type: CallbackType.DEFAULT,
-                    cb: async (data: any) => {
-                      // console.log('received "ready" message from iframe', data);
-                      if (this.hyperLinkIframe?.contentWindow) {
-                        this.windowCommunicator.singlePostToWindow(
-                          this.hyperLinkIframe.contentWindow,
-                          {
-                            type: "ack",
-                            title: this.title,
-                            dAppSessionId: this.dAppSessionId,
-                            hyperLinkSessionId: this.hyperLinkSessionId,
-                          }
-                        );
+                    cb: async (data) => {
+                      this._protocol = negotiateProtocol(data);
+                      this.windowCommunicator.setProtocolVersion(
+                        this._protocol.version
+                      );
+                      const iframeWindow = this.hyperLinkIframe?.contentWindow;
+                      if (iframeWindow) {
+                        const ack: OutgoingMessageOf<"ack"> = {
+                          type: "ack",
+                          title: this.title,
+                          dAppSessionId: this.dAppSessionId,
+                          hyperLinkSessionId: this.hyperLinkSessionId,
+                          protocolVersion: PROTOCOL_VERSION,
+                          capabilities: [...SUPPORTED_CAPABILITIES],
+                        };
+                        const usingPort =
+                          this.supports(HYPERLINK_CAPABILITY.MESSAGE_PORT) &&
+                          this.windowCommunicator.openMessagePort(
+                            iframeWindow,
+                            ack
+                          );
+                        if (!usingPort) {
+                          this.windowCommunicator.singlePostToWindow(
+                            iframeWindow,
+                            ack
+                          );
+                        }
                       }
                       // TODO: use better flag to send to window post
-                      // console.log("sending ready messages to window!");
                       windowPost?.({
                         type: "ready",
                         dAppSessionId: this.dAppSessionId,
@@ -1752,7 +1915,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                             windowParams.popup.closed)) ||
                         forceClickToContinue
                       ) {
-                        clearInterval(checkPopupClosed);
+                        popupMonitor?.dispose();
                         if (this.hyperLinkIframe?.contentWindow) {
                           this.windowCommunicator.singlePostToWindow(
                             this.hyperLinkIframe.contentWindow,
@@ -1768,8 +1931,7 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                         !directConnect &&
                         !promptHyperLinkAutoConnectFromRedirect
                       ) {
-                        clearInterval(checkPopupClosed);
-                        // console.log("TRYING TO SINGLE POST!");
+                        popupMonitor?.dispose();
                         if (this.hyperLinkIframe?.contentWindow) {
                           this.windowCommunicator.singlePostToWindow(
                             this.hyperLinkIframe.contentWindow,
@@ -1778,13 +1940,9 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                             }
                           );
                         }
-                        // console.log(
-                        //   "displaying iframe for embedded_login after",
-                        //   Date.now() - start
-                        // );
                         this.showIframe();
                       } else if (promptHyperLinkAutoConnectFromRedirect) {
-                        clearInterval(checkPopupClosed);
+                        popupMonitor?.dispose();
                         if (this.hyperLinkIframe?.contentWindow) {
                           this.windowCommunicator.singlePostToWindow(
                             this.hyperLinkIframe.contentWindow,
@@ -1794,21 +1952,13 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                             }
                           );
                         }
-                        // console.log(
-                        //   "displaying iframe for hyperlink autoconnect from redirect after",
-                        //   Date.now() - start
-                        // );
                         this.showIframe();
                       }
                     },
                   },
                   ready_for_hyperlink_autoconnect: {
                     type: CallbackType.DEFAULT,
-                    cb: async (data: any) => {
-                      // console.log(
-                      //   "received ready_for_hyperlink_autoconnect",
-                      //   data
-                      // );
+                    cb: async (data) => {
                       if (this.hyperLinkIframe?.contentWindow) {
                         this.windowCommunicator.singlePostToWindow(
                           this.hyperLinkIframe.contentWindow,
@@ -1822,9 +1972,8 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                   },
                   loaded_public_key: {
                     type: CallbackType.DEFAULT,
-                    cb: async (data: any) => {
-                      clearInterval(checkPopupClosed);
-                      // console.log("RECEIVED LOADED PUBLIC_KEY");
+                    cb: async (data) => {
+                      popupMonitor?.dispose();
                       this.hideIframe();
                       if (this.hyperLinkIframe?.contentWindow) {
                         this.windowCommunicator.singlePostToWindow(
@@ -1837,10 +1986,6 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                           }
                         );
                       }
-                      // console.log(
-                      //   'received "loaded_public_key" message from iframe',
-                      //   data.publicKey
-                      // );
                       this.publicKeyString = data.publicKey;
                       if (siwsInputPromise) {
                         const siwsOutput = await this._signIn(
@@ -1848,7 +1993,9 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                           true
                         );
                         if (!siwsOutput) {
-                          reject(new Error("missing siwsOutput"));
+                          reject(
+                            new HyperLinkSigningError("missing siwsOutput")
+                          );
                         }
                         resolve({
                           pk: data.publicKey,
@@ -1862,14 +2009,9 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                   },
                   public_key: {
                     type: CallbackType.DEFAULT,
-                    cb: async (data: any) => {
-                      clearInterval(checkPopupClosed);
-                      // console.log("RECEIVED PUBLIC_KEY");
+                    cb: async (data) => {
+                      popupMonitor?.dispose();
                       this.hideIframe();
-                      // console.log(
-                      //   'received "public_key" message from iframe',
-                      //   data.publicKey
-                      // );
                       this.publicKeyString = data.publicKey;
                       if (
                         promptHyperLinkAutoConnectFromRedirect ||
@@ -1883,7 +2025,9 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                           true
                         );
                         if (!siwsOutput) {
-                          reject(new Error("missing siwsOutput"));
+                          reject(
+                            new HyperLinkSigningError("missing siwsOutput")
+                          );
                         }
                         resolve({
                           pk: data.publicKey,
@@ -1897,35 +2041,40 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                   },
                   cancel_connect: {
                     type: CallbackType.DEFAULT,
-                    cb: async (data: any) => {
-                      // console.log("RECEIVED CANCEL_CONNECT");
+                    cb: async (data) => {
                       this.hideIframe();
                       windowParams?.popup?.close();
                       this.cleanUp();
-                      reject(new Error("user clicked close button in iframe"));
+                      reject(
+                        popupMonitor?.blocked
+                          ? new HyperLinkPopupBlockedError(
+                              "The login popup was blocked and the user closed the prompt shown instead"
+                            )
+                          : new HyperLinkUserRejectedError(
+                              "User closed the HyperLink login"
+                            )
+                      );
                     },
                   },
                   focus_login: {
                     type: CallbackType.DEFAULT,
-                    cb: async (data: any) => {
+                    cb: async (data) => {
                       windowParams?.popup?.focus();
                     },
                   },
                 },
-                ["public_key", "cancel_connect", "loaded_public_key"]
+                ["public_key", "cancel_connect", "loaded_public_key"],
+                undefined,
+                reject
               );
             fnsAtEnd.push(closeIframeChannel);
           });
         } catch (error) {
-          // console.log("REJECTING error", error);
-          // console.log("rejected via errior");
           reject(error);
         }
       });
     };
-    // console.log("readying document");
     await documentReady();
-    // console.log("handling setup");
     return handleSetup()
       .then((result) => {
         fnsAtEnd.forEach((fn) => fn());
@@ -1976,6 +2125,10 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                   case EmbeddedWalletPage.ADD_FUNDS:
                   case EmbeddedWalletPage.SWAP:
                   case EmbeddedWalletPage.WITHDRAW:
+                    this.assertCapability(
+                      HYPERLINK_CAPABILITY.WALLET_PAGES,
+                      `Opening the ${page} wallet page`
+                    );
                     handshake?.post({ type: "show_wallet", page });
                     break;
                   case EmbeddedWalletPage.OVERVIEW:
@@ -2053,6 +2206,10 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
                         case EmbeddedWalletPage.ADD_FUNDS:
                         case EmbeddedWalletPage.SWAP:
                         case EmbeddedWalletPage.WITHDRAW:
+                          this.assertCapability(
+                            HYPERLINK_CAPABILITY.WALLET_PAGES,
+                            `Opening the ${page} wallet page`
+                          );
                           handshake?.post({ type: "show_wallet", page });
                           break;
                         case EmbeddedWalletPage.OVERVIEW:
@@ -2082,25 +2239,20 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   }
 
   async cleanUp(): Promise<void> {
+    this.requestQueue.clear();
     // console.log("cleaning up");
     if (this.hyperLinkIframe) {
-      const iFrame = this.hyperLinkIframe;
-      await new Promise<void>((resolve) => {
-        const { post: postToIframe } =
-          this.windowCommunicator.setupHandshakeWithIframe(
-            iFrame,
-            {
-              disconnected: {
-                type: CallbackType.DEFAULT,
-                cb: async () => {
-                  resolve();
-                },
-              },
-            },
-            ["disconnected"]
-          );
-        postToIframe({ type: "disconnect" });
-      });
+      try {
+        await this.windowCommunicator.request(
+          this.hyperLinkIframe,
+          "disconnect",
+          {},
+          { timeoutMs: DISCONNECT_TIMEOUT_MS }
+        );
+      } catch (error) {
+        // the iframe may be gone or unresponsive, clean up our side regardless
+        this.logger.warn("disconnect was not acknowledged", error);
+      }
     }
     this.publicKeyString = undefined;
     this.clearElements();
@@ -2128,6 +2280,11 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       isElement(this.hyperLinkIframe) &&
       window.document.body.contains(this.hyperLinkIframe)
     ) {
+      if (this.hyperLinkIframe.contentWindow) {
+        this.windowCommunicator.closeMessagePort(
+          this.hyperLinkIframe.contentWindow
+        );
+      }
       this.hyperLinkIframe.remove();
       this.hyperLinkIframe = undefined;
     }
@@ -2168,63 +2325,133 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     };
   }
 
+  // Per-call compute budget options win over the `computeBudget` default
+  private withComputeBudget<T extends Transaction | VersionedTransaction>(
+    transaction: T,
+    connection: Connection,
+    { priorityFee, computeUnitLimit, computeUnitMargin }: ComputeBudgetOptions
+  ): Promise<T> {
+    return applyComputeBudget(connection, transaction, {
+      priorityFee: priorityFee ?? this.computeBudget?.priorityFee,
+      computeUnitLimit: computeUnitLimit ?? this.computeBudget?.computeUnitLimit,
+      computeUnitMargin:
+        computeUnitMargin ?? this.computeBudget?.computeUnitMargin,
+    });
+  }
+
+  // Rejects with HyperLinkPolicyError before anything is shown to the user
+  private async checkPolicies(
+    transaction: Transaction | VersionedTransaction,
+    connection = this.simulation?.connection
+  ): Promise<void> {
+    if (this.policies.length === 0 || !this.publicKeyString) {
+      return;
+    }
+    await enforcePolicies(
+      this.policies,
+      transaction,
+      new PublicKey(this.publicKeyString),
+      connection
+    );
+  }
+
+  // Runs the opt-in simulation, rejecting before the wallet is prompted if the
+  // transaction would fail. Undefined when simulation is off or there's no
+  // connection to simulate on.
+  private async previewTransaction(
+    transaction: Transaction | VersionedTransaction,
+    connection = this.simulation?.connection
+  ): Promise<TransactionPreview | undefined> {
+    const simulation = this.simulation;
+    if (!simulation || !connection || !this.publicKeyString) {
+      return undefined;
+    }
+    const preview = await simulateTransactionPreview(
+      connection,
+      transaction,
+      new PublicKey(this.publicKeyString),
+      simulation.commitment
+    );
+    this.logger.debug("transaction preview", preview);
+    await simulation.onPreview?.(preview, transaction);
+    if (preview.error && simulation.rejectOnFailure !== false) {
+      throw new HyperLinkSimulationError(preview);
+    }
+    return preview;
+  }
+
   async _signTransaction({
     transaction,
     doSend,
+    connection,
+    options,
   }: {
     transaction: Transaction | VersionedTransaction;
     doSend: boolean;
+    // for policy checks, simulation and loading address lookup tables,
+    // `simulation.connection` if unset
+    connection?: Connection;
+    options?: RequestOptions;
   }): Promise<string> {
     this.extendSession();
-    // console.log("signing transaction");
+    await this.checkPolicies(transaction, connection);
+    const preview = await this.previewTransaction(transaction, connection);
     const msg = await this.buildTransactionMessage(transaction);
-    return await new Promise<string>((resolve, reject) => {
-      if (!this.hyperLinkIframe) {
-        reject(new Error("iframe is missing"));
-        return;
-      }
-      this.showIframe();
-      const requestId = uuid();
-      const { post } = this.windowCommunicator.setupHandshakeWithIframe(
-        this.hyperLinkIframe,
-        {
-          signed_transaction: {
-            type: CallbackType.DEFAULT,
-            cb: async (data: any) => {
-              this.hideIframe();
-              resolve(data.signed_transaction);
-            },
-          },
-          transaction_closed: {
-            type: CallbackType.DEFAULT,
-            cb: async () => {
-              this.hideIframe();
-              reject(new Error("User rejected transaction"));
-            },
-          },
-          sign_error: {
-            type: CallbackType.DEFAULT,
-            cb: async (data: any) => {
-              this.hideIframe();
-
-              if (data && "message" in data) {
-                reject(new Error(data.message));
-              }
-
-              reject(new Error("Unknown error while signing transaction"));
-            },
-          },
-        },
-        ["signed_transaction", "transaction_closed", "sign_error"],
-        requestId
-      );
-      post({
+    const summary = await this.decoders.summarizeTransaction(
+      transaction,
+      connection ?? this.simulation?.connection
+    );
+    const reply = await this.requestFromIframe(
+      "sign_transaction",
+      {
         ...msg,
-        type: "sign_transaction",
         doSend,
-        requestId,
-      });
-    });
+        preview,
+        summary,
+      },
+      options
+    );
+    switch (reply.type) {
+      case "signed_transaction":
+        this.verifySignedTransaction(transaction, reply.signed_transaction);
+        return reply.signed_transaction;
+      case "transaction_closed":
+        throw new HyperLinkUserRejectedError("User rejected transaction");
+      case "sign_error":
+        throw new HyperLinkSigningError(
+          reply.message || "Unknown error while signing transaction"
+        );
+    }
+  }
+
+  // Throws HyperLinkTransactionModifiedError if the wallet changed more than
+  // `allowWalletModifications` permits, and HyperLinkInvalidSignatureError
+  // unless the connected account signed `signed` and the signatures already
+  // on `original` were kept
+  private verifySignedTransaction(
+    original: Transaction | VersionedTransaction,
+    signed: string
+  ): void {
+    const returned = this.transactionFromString(
+      isVersionedTransaction(original),
+      signed
+    );
+    const changes = diffTransactionMessages(
+      original,
+      returned,
+      this.allowWalletModifications
+    );
+    if (changes.length > 0) {
+      throw new HyperLinkTransactionModifiedError(changes);
+    }
+    if (!this.publicKeyString) {
+      return;
+    }
+    verifyWalletSignature(
+      original,
+      returned,
+      new PublicKey(this.publicKeyString)
+    );
   }
 
   transactionFromString(
@@ -2241,11 +2468,13 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
   }
 
   async signTransaction<T extends Transaction | VersionedTransaction>(
-    transaction: T
+    transaction: T,
+    options?: RequestOptions
   ): Promise<T> {
     const signedTransaction = await this._signTransaction({
       transaction,
       doSend: false,
+      options,
     });
     return this.transactionFromString(
       isVersionedTransaction(transaction),
@@ -2253,74 +2482,81 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     ) as T;
   }
 
-  async signAllTransactions<T extends Transaction | VersionedTransaction>(
-    transactions: T[]
-  ): Promise<T[]> {
+  private async _signAllTransactions({
+    transactions,
+    doSend,
+    connection,
+    options,
+  }: {
+    transactions: (Transaction | VersionedTransaction)[];
+    doSend: boolean;
+    // for policy checks and loading address lookup tables,
+    // `simulation.connection` if unset
+    connection?: Connection;
+    options?: RequestOptions;
+  }): Promise<string[]> {
     this.extendSession();
+    for (const transaction of transactions) {
+      await this.checkPolicies(transaction, connection);
+    }
 
     const messages = await Promise.all(
       transactions.map(async (transaction) => {
-        const isVersioned = isVersionedTransaction(transaction);
         const { message } = await this.buildTransactionMessage(transaction);
-        return {
-          message,
-          isVersioned,
-        };
+        return message;
       })
     );
+    const summaries = await Promise.all(
+      transactions.map((transaction) =>
+        this.decoders.summarizeTransaction(
+          transaction,
+          connection ?? this.simulation?.connection
+        )
+      )
+    );
 
-    const signedTxnMessages = await new Promise<string[]>((resolve, reject) => {
-      if (!this.hyperLinkIframe) {
-        reject(new Error("iframe is missing"));
-        return;
-      }
-      this.showIframe();
-      const requestId = uuid();
-      const { post } = this.windowCommunicator.setupHandshakeWithIframe(
-        this.hyperLinkIframe,
-        {
-          signed_transactions: {
-            type: CallbackType.DEFAULT,
-            cb: async (data: any) => {
-              this.hideIframe();
-              resolve(data.signed_transactions);
-            },
-          },
-          transaction_closed: {
-            type: CallbackType.DEFAULT,
-            cb: async () => {
-              this.hideIframe();
-              reject(new Error("User rejected transaction"));
-            },
-          },
-          sign_error: {
-            type: CallbackType.DEFAULT,
-            cb: async (data: any) => {
-              this.hideIframe();
-
-              if (data && "message" in data) {
-                reject(new Error(data.message));
-              } else {
-                reject(
-                  new Error("Unknown error while signing transaction messages")
-                );
-              }
-            },
-          },
-        },
-        ["signed_transactions", "transaction_closed", "sign_error"],
-        requestId
-      );
-      post({
-        type: "sign_all_transactions",
-        messages: messages.map((msg) => msg.message),
-        requestId,
-      });
+    const reply = await this.requestFromIframe(
+      "sign_all_transactions",
+      {
+        messages,
+        doSend,
+        summaries,
+      },
+      options
+    );
+    switch (reply.type) {
+      case "signed_transactions":
+        if (reply.signed_transactions.length !== transactions.length) {
+          throw new HyperLinkSigningError(
+            `Expected ${transactions.length} signed transactions, received ${reply.signed_transactions.length}`
+          );
+        }
+        reply.signed_transactions.forEach((signed, index) =>
+          this.verifySignedTransaction(transactions[index], signed)
+        );
+        return reply.signed_transactions;
+      case "transaction_closed":
+        throw new HyperLinkUserRejectedError("User rejected transaction");
+      case "sign_error":
+        throw new HyperLinkSigningError(
+          reply.message || "Unknown error while signing transaction messages"
+        );
+    }
+  }
+
+  async signAllTransactions<T extends Transaction | VersionedTransaction>(
+    transactions: T[],
+    options?: RequestOptions
+  ): Promise<T[]> {
+    const signedTxnMessages = await this._signAllTransactions({
+      transactions,
+      doSend: false,
+      options,
     });
 
     return signedTxnMessages.map((signedTxnMsg, i) => {
       return this.transactionFromString(
-        messages[i].isVersioned,
+        isVersionedTransaction(transactions[i]),
         signedTxnMsg
       ) as T;
     });
@@ -2328,83 +2564,170 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
 
   private async _signMessage(
     message: Uint8Array,
-    type: string,
-    skipConfirm?: boolean
+    type: "sign_message" | "siws",
+    skipConfirm?: boolean,
+    options?: RequestOptions,
+    // sign_message only
+    format?: MessageFormat
   ): Promise<{ data: Uint8Array; extraInfo: any }> {
-    return new Promise<{ data: Uint8Array; extraInfo: any }>(
-      (resolve, reject) => {
-        // TODO: do we still need to extend session
+    // TODO: do we still need to extend session
+    this.extendSession();
+    const reply = await this.requestFromIframe(
+      type,
+      {
+        message: Buffer.from(message).toString("base64"),
+        skipConfirm,
+        ...(format && { format }),
+      },
+      options
+    );
+    switch (reply.type) {
+      case "signed_message":
+        return {
+          data: Buffer.from(reply.signed_message, "base64"),
+          extraInfo: reply.extraInfo,
+        };
+      case "message_closed":
+        throw new HyperLinkUserRejectedError("User rejected message");
+      case "sign_error":
+        throw new HyperLinkSigningError(
+          reply.message || "Unknown error while signing message"
+        );
+    }
+  }
+
+  // Shows the iframe for the duration of a request and hides it once the
+  // request settles, whether it was answered, timed out or aborted.
+  private async requestFromIframe<T extends RequestType>(
+    type: T,
+    payload: RequestPayload<T>,
+    options?: RequestOptions
+  ): Promise<ReplyOf<T>> {
+    if (!this.hyperLinkIframe) {
+      throw new HyperLinkWalletUnavailableError("iframe is missing");
+    }
+    // one prompt at a time, otherwise the first `hideIframe` hides the next one
+    return this.requestQueue.enqueue(
+      type,
+      async () => {
         if (!this.hyperLinkIframe) {
-          reject(new Error("iframe is missing"));
-          return;
+          throw new HyperLinkWalletUnavailableError("iframe is missing");
         }
-        this.extendSession();
-        const requestId = uuid();
-        const { post } = this.windowCommunicator.setupHandshakeWithIframe(
-          this.hyperLinkIframe,
-          {
-            signed_message: {
-              type: CallbackType.DEFAULT,
-              cb: async (data: any) => {
-                this.hideIframe();
-                const signedMessage = Buffer.from(
-                  data.signed_message,
-                  "base64"
-                );
-                resolve({ data: signedMessage, extraInfo: data.extraInfo });
-              },
-            },
-            message_closed: {
-              type: CallbackType.DEFAULT,
-              cb: async () => {
-                this.hideIframe();
-                reject(new Error("User rejected message"));
-              },
-            },
-            sign_error: {
-              type: CallbackType.DEFAULT,
-              cb: async (data: any) => {
-                this.hideIframe();
-
-                if (data && "message" in data) {
-                  reject(new Error(data.message));
-                } else {
-                  reject(new Error("Unknown error while signing message"));
-                }
-              },
-            },
-          },
-          ["signed_message", "message_closed", "sign_error"],
-          requestId
-        );
         this.showIframe();
-        post({
-          message: Buffer.from(message).toString("base64"),
-          type,
-          requestId,
-          skipConfirm,
-        });
-      }
+        try {
+          return await this.windowCommunicator.request(
+            this.hyperLinkIframe,
+            type,
+            payload,
+            {
+              timeoutMs: this.requestTimeoutMs,
+              ...options,
+            }
+          );
+        } finally {
+          this.hideIframe();
+        }
+      },
+      options
     );
   }
 
-  async signMessage(message: Uint8Array): Promise<{ signature: Uint8Array }> {
-    const { data } = await this._signMessage(message, "sign_message");
+  async signMessage(
+    message: Uint8Array,
+    { format, ...options }: SignMessageOptions = {}
+  ): Promise<{ signature: Uint8Array }> {
+    if (isTransactionBytes(message)) {
+      throw new HyperLinkUnsafeMessageError();
+    }
+    const { data } = await this._signMessage(
+      message,
+      "sign_message",
+      undefined,
+      options,
+      format ?? detectMessageFormat(message)
+    );
     return { signature: data };
   }
 
+  // Signs `message` wrapped in the Solana off-chain message format. The
+  // signature is over the returned `signedMessage`, not `message` itself.
+  async signOffchainMessage(
+    message: string | Uint8Array,
+    options?: RequestOptions
+  ): Promise<{ signedMessage: Uint8Array; signature: Uint8Array }> {
+    const signedMessage = encodeOffchainMessage(message);
+    const { signature } = await this.signMessage(signedMessage, {
+      ...options,
+      format: "offchain",
+    });
+    return { signedMessage, signature };
+  }
+
+  // One prompt for every message, needs the `batch_message_signing` capability
+  async signAllMessages(
+    messages: Uint8Array[],
+    { format, ...options }: SignMessageOptions = {}
+  ): Promise<{ signatures: Uint8Array[] }> {
+    this.assertCapability(
+      HYPERLINK_CAPABILITY.BATCH_MESSAGE_SIGNING,
+      "Signing several messages in one prompt"
+    );
+    if (messages.some(isTransactionBytes)) {
+      throw new HyperLinkUnsafeMessageError();
+    }
+    this.extendSession();
+    const reply = await this.requestFromIframe(
+      "sign_all_messages",
+      {
+        messages: messages.map((message) =>
+          Buffer.from(message).toString("base64")
+        ),
+        formats: messages.map(
+          (message) => format ?? detectMessageFormat(message)
+        ),
+      },
+      options
+    );
+    switch (reply.type) {
+      case "signed_messages":
+        if (reply.signed_messages.length !== messages.length) {
+          throw new HyperLinkSigningError(
+            `Expected ${messages.length} signatures, received ${reply.signed_messages.length}`
+          );
+        }
+        return {
+          signatures: reply.signed_messages.map((signature) =>
+            Buffer.from(signature, "base64")
+          ),
+        };
+      case "message_closed":
+        throw new HyperLinkUserRejectedError("User rejected message");
+      case "sign_error":
+        throw new HyperLinkSigningError(
+          reply.message || "Unknown error while signing messages"
+        );
+    }
+  }
+
   private async _signIn(
     customInput?: Promise<SolanaSignInInput>,
-    skipConfirm?: boolean
-  ): Promise<SolanaSignInOutput> {
-    const input = await customInput;
+    skipConfirm?: boolean,
+    options?: RequestOptions
+  ): Promise<HyperLinkSignInOutput> {
+    const input = this.signInDefaults
+      ? await applySignInDefaults(await customInput, this.signInDefaults)
+      : await customInput;
     const publicKeyAddress = input?.address || this.publicKeyString;
     if (!publicKeyAddress) {
-      throw new Error("not connected!");
+      throw new HyperLinkWalletUnavailableError(
+        "Not connected and no address to sign in with"
+      );
     }
     const domain = input?.domain || window.location.host;
     if (!domain) {
-      throw new Error("no domain found!");
+      throw new HyperLinkInvalidRequestError(
+        "Sign-in needs a domain, none was given or found in the page URL"
+      );
     }
     const siwsRequiredFields = {
       ...input,
@@ -2415,7 +2738,8 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     const { data: signature, extraInfo } = await this._signMessage(
       signInMessage,
       "siws",
-      skipConfirm
+      skipConfirm,
+      options
     );
     return {
       account: new ReadonlyWalletAccount({
@@ -2433,15 +2757,16 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       }),
       signedMessage: signInMessage,
       signature,
-      // @ts-ignore
       extraInfo,
+      input: siwsRequiredFields,
     };
   }
 
   async signIn(
-    input?: Promise<SolanaSignInInput>
-  ): Promise<SolanaSignInOutput> {
-    return this._signIn(input);
+    input?: Promise<SolanaSignInInput>,
+    options?: RequestOptions
+  ): Promise<HyperLinkSignInOutput> {
+    return this._signIn(input, undefined, options);
   }
 
   // This is copied from the `sendTransaction` method in BaseSignerWalletAdapter,
@@ -2456,18 +2781,31 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       sendOptions: Omit<SendTransactionOptions, "signers">
     ) => Promise<Transaction>,
     connection: Connection,
-    options: SendTransactionOptions = {}
+    options: SendTransactionOptions & ComputeBudgetOptions = {},
+    requestOptions?: RequestOptions
   ): Promise<TransactionSignature> {
+    const [computeBudget, { signers, ...sendOptions }] =
+      splitComputeBudgetOptions(options);
     if (isVersionedTransaction(transaction)) {
       try {
-        const transactionString = await this._signTransaction({
+        const txn = await this.withComputeBudget(
           transaction,
+          connection,
+          computeBudget
+        );
+
+        signers?.length && txn.sign(signers);
+
+        const transactionString = await this._signTransaction({
+          transaction: txn,
           doSend: true,
+          connection,
+          options: requestOptions,
         });
 
         const rawTransaction = Buffer.from(transactionString, "base64");
 
-        return await connection.sendRawTransaction(rawTransaction, options);
+        return await connection.sendRawTransaction(rawTransaction, sendOptions);
       } catch (error: any) {
         if (error instanceof WalletSignTransactionError) {
           throw error;
@@ -2476,19 +2814,29 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
       }
     } else {
       try {
-        const { signers, ...sendOptions } = options;
-
-        const txn = await prepareTransaction(
+        await setDurableNonceBlockhash(
+          connection,
+          transaction as Transaction,
+          sendOptions.preflightCommitment
+        );
+        const prepared = await prepareTransaction(
           transaction as Transaction,
           connection,
           sendOptions
         );
+        const txn = await this.withComputeBudget(
+          prepared,
+          connection,
+          computeBudget
+        );
 
         signers?.length && txn.partialSign(...signers);
 
         const transactionString = await this._signTransaction({
           transaction: txn,
           doSend: true,
+          connection,
+          options: requestOptions,
         });
 
         const rawTransaction = Buffer.from(transactionString, "base64");
@@ -2503,18 +2851,189 @@ export class HyperLinkEmbed extends EventEmitter<HyperLinkEmbedEvents> {
     }
   }
 
+  // Like `sendTransaction`, but keeps rebroadcasting the signed bytes until
+  // they're confirmed or the blockhash expires. Only signing and the first
+  // send reject; the outcome on chain is in the result.
+  async sendAndConfirmTransaction<
+    T extends Transaction | VersionedTransaction
+  >(
+    transaction: T,
+    prepareTransaction: (
+      transaction: Transaction,
+      connection: Connection,
+      sendOptions: Omit<SendTransactionOptions, "signers">
+    ) => Promise<Transaction>,
+    connection: Connection,
+    options: SendAndConfirmTransactionOptions = {},
+    requestOptions?: RequestOptions
+  ): Promise<SendAndConfirmTransactionResult> {
+    const [
+      computeBudget,
+      {
+        commitment,
+        rebroadcastIntervalMs,
+        lastValidBlockHeight,
+        confirmationTimeoutMs,
+        signal,
+        onProgress,
+        signers,
+        ...sendOptions
+      },
+    ] = splitComputeBudgetOptions(options);
+    let blockHeightLimit = lastValidBlockHeight;
+    let rawTransaction: Buffer;
+    try {
+      let txn: Transaction | VersionedTransaction = transaction;
+      if (isVersionedTransaction(transaction)) {
+        const versioned = await this.withComputeBudget(
+          transaction,
+          connection,
+          computeBudget
+        );
+        signers?.length && versioned.sign(signers);
+        txn = versioned;
+      } else {
+        await setDurableNonceBlockhash(
+          connection,
+          transaction,
+          sendOptions.preflightCommitment
+        );
+        // fetch the blockhash here, `prepareTransaction` drops its expiry
+        if (!transaction.recentBlockhash) {
+          const latestBlockhash = await connection.getLatestBlockhash({
+            commitment: sendOptions.preflightCommitment,
+            minContextSlot: sendOptions.minContextSlot,
+          });
+          transaction.recentBlockhash = latestBlockhash.blockhash;
+          transaction.lastValidBlockHeight =
+            latestBlockhash.lastValidBlockHeight;
+        }
+        const prepared = await prepareTransaction(
+          transaction as Transaction,
+          connection,
+          sendOptions
+        );
+        blockHeightLimit ??= prepared.lastValidBlockHeight;
+        const legacy = await this.withComputeBudget(
+          prepared,
+          connection,
+          computeBudget
+        );
+        signers?.length && legacy.partialSign(...signers);
+        txn = legacy;
+      }
+
+      const transactionString = await this._signTransaction({
+        transaction: txn,
+        doSend: true,
+        connection,
+        options: requestOptions,
+      });
+      rawTransaction = Buffer.from(transactionString, "base64");
+    } catch (error: any) {
+      if (error instanceof WalletSignTransactionError) {
+        throw error;
+      }
+      throw new WalletSendTransactionError(error?.message, error);
+    }
+
+    // throws WalletSendTransactionError itself if the first send fails
+    return sendWithRebroadcast(connection, rawTransaction, {
+      commitment,
+      rebroadcastIntervalMs,
+      lastValidBlockHeight: blockHeightLimit,
+      confirmationTimeoutMs,
+      signal,
+      onProgress,
+      sendOptions,
+    });
+  }
+
+  // Signs every transaction in one prompt, then broadcasts them. Only a failed
+  // signature rejects; failed sends are reported per transaction so the
+  // successful ones aren't lost.
+  async signAndSendAllTransactions<
+    T extends Transaction | VersionedTransaction
+  >(
+    transactions: T[],
+    prepareTransaction: (
+      transaction: Transaction,
+      connection: Connection,
+      sendOptions: Omit<SendTransactionOptions, "signers">
+    ) => Promise<Transaction>,
+    connection: Connection,
+    options: SignAndSendAllTransactionsOptions = {},
+    requestOptions?: RequestOptions
+  ): Promise<SignAndSendTransactionResult[]> {
+    const [computeBudget, { mode, signers, ...sendOptions }] =
+      splitComputeBudgetOptions(options);
+    let signedTransactions: string[];
+    try {
+      const prepared = await Promise.all(
+        transactions.map(async (transaction) => {
+          if (isVersionedTransaction(transaction)) {
+            const txn = await this.withComputeBudget(
+              transaction,
+              connection,
+              computeBudget
+            );
+            signers?.length && txn.sign(signers);
+            return txn;
+          }
+          await setDurableNonceBlockhash(
+            connection,
+            transaction as Transaction,
+            sendOptions.preflightCommitment
+          );
+          const txn = await this.withComputeBudget(
+            await prepareTransaction(
+              transaction as Transaction,
+              connection,
+              sendOptions
+            ),
+            connection,
+            computeBudget
+          );
+          signers?.length && txn.partialSign(...signers);
+          return txn;
+        })
+      );
+
+      signedTransactions = await this._signAllTransactions({
+        transactions: prepared,
+        doSend: true,
+        connection,
+        options: requestOptions,
+      });
+    } catch (error: any) {
+      if (error instanceof WalletSignTransactionError) {
+        throw error;
+      }
+      throw new WalletSendTransactionError(error?.message, error);
+    }
+
+    return broadcastTransactions(
+      connection,
+      signedTransactions.map((transaction) =>
+        Buffer.from(transaction, "base64")
+      ),
+      mode,
+      sendOptions
+    );
+  }
+
   notifyDisallowed() {
     try {
       this.clearElements();
     } catch {
       // best effort
     }
-    console.error(
+    this.logger.error(
       window.location.origin,
       "not allowlisted – please contact the HyperLink team at contact@hyperlink.io to be added."
     );
     showDialog(
-      this.buildEnv,
+      this.windowCommunicator.origin,
       `<p>${window.location.origin} does not have access yet ` +
         "to use the HyperLink Wallet Adapter. Please reach out to the " +
         'HyperLink team at <a style="text-decoration: underline;" href="mailto:contact@hyperlink.io" target="_blank"> ' +
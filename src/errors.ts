@@ -0,0 +1,254 @@
+import type { TransactionPreview } from "./simulation";
+import type { TransactionChange } from "./transactionDiff";
+
+// Stable across releases, match on these rather than on error messages
+export const HYPERLINK_ERROR_CODE = {
+  USER_REJECTED: "user_rejected",
+  WALLET_UNAVAILABLE: "wallet_unavailable",
+  NOT_ALLOWLISTED: "not_allowlisted",
+  TIMEOUT: "timeout",
+  POPUP_BLOCKED: "popup_blocked",
+  UNSUPPORTED_BROWSER: "unsupported_browser",
+  SIGNING_FAILED: "signing_failed",
+  INVALID_SIGNATURE: "invalid_signature",
+  TRANSACTION_MODIFIED: "transaction_modified",
+  UNSAFE_MESSAGE: "unsafe_message",
+  REQUEST_ABORTED: "request_aborted",
+  WALLET_BUSY: "wallet_busy",
+  UNSUPPORTED_CAPABILITY: "unsupported_capability",
+  SIMULATION_FAILED: "simulation_failed",
+  POLICY_VIOLATION: "policy_violation",
+  PROTOCOL_ERROR: "protocol_error",
+  INVALID_REQUEST: "invalid_request",
+} as const;
+
+export type HyperLinkErrorCode =
+  (typeof HYPERLINK_ERROR_CODE)[keyof typeof HYPERLINK_ERROR_CODE];
+
+export class HyperLinkError extends Error {
+  readonly code: HyperLinkErrorCode;
+
+  constructor(code: HyperLinkErrorCode, message: string) {
+    super(message);
+    this.name = "HyperLinkError";
+    this.code = code;
+  }
+}
+
+export class HyperLinkProtocolError extends HyperLinkError {
+  readonly messageType: string | undefined;
+
+  constructor(message: string, messageType?: string) {
+    super(HYPERLINK_ERROR_CODE.PROTOCOL_ERROR, message);
+    this.name = "HyperLinkProtocolError";
+    this.messageType = messageType;
+  }
+}
+
+export class HyperLinkRequestTimeoutError extends HyperLinkError {
+  readonly requestType: string;
+  readonly requestId: string;
+
+  constructor(requestType: string, requestId: string, timeoutMs: number) {
+    super(
+      HYPERLINK_ERROR_CODE.TIMEOUT,
+      `"${requestType}" request timed out after ${timeoutMs}ms`
+    );
+    this.name = "HyperLinkRequestTimeoutError";
+    this.requestType = requestType;
+    this.requestId = requestId;
+  }
+}
+
+export class HyperLinkRequestAbortedError extends HyperLinkError {
+  readonly requestType: string;
+  readonly requestId: string | undefined;
+
+  constructor(requestType: string, requestId?: string) {
+    super(
+      HYPERLINK_ERROR_CODE.REQUEST_ABORTED,
+      `"${requestType}" request was aborted`
+    );
+    this.name = "HyperLinkRequestAbortedError";
+    this.requestType = requestType;
+    this.requestId = requestId;
+  }
+}
+
+export class HyperLinkUnsupportedCapabilityError extends HyperLinkError {
+  readonly capability: string;
+
+  constructor(capability: string, feature: string) {
+    super(
+      HYPERLINK_ERROR_CODE.UNSUPPORTED_CAPABILITY,
+      `${feature} is not supported by the connected HyperLink wallet (missing "${capability}" capability)`
+    );
+    this.name = "HyperLinkUnsupportedCapabilityError";
+    this.capability = capability;
+  }
+}
+
+export class HyperLinkWalletBusyError extends HyperLinkError {
+  readonly requestType: string;
+  readonly currentRequestType: string;
+
+  constructor(requestType: string, currentRequestType: string) {
+    super(
+      HYPERLINK_ERROR_CODE.WALLET_BUSY,
+      `"${requestType}" request rejected, the wallet is busy with a "${currentRequestType}" request`
+    );
+    this.name = "HyperLinkWalletBusyError";
+    this.requestType = requestType;
+    this.currentRequestType = currentRequestType;
+  }
+}
+
+export class HyperLinkSimulationError extends HyperLinkError {
+  readonly preview: TransactionPreview;
+
+  constructor(preview: TransactionPreview) {
+    super(
+      HYPERLINK_ERROR_CODE.SIMULATION_FAILED,
+      `Transaction simulation failed: ${
+        typeof preview.error === "string"
+          ? preview.error
+          : JSON.stringify(preview.error)
+      }`
+    );
+    this.name = "HyperLinkSimulationError";
+    this.preview = preview;
+  }
+}
+
+export class HyperLinkUserRejectedError extends HyperLinkError {
+  constructor(message = "User rejected the request") {
+    super(HYPERLINK_ERROR_CODE.USER_REJECTED, message);
+    this.name = "HyperLinkUserRejectedError";
+  }
+}
+
+// The iframe isn't there to talk to, e.g. the wallet was torn down mid-request
+export class HyperLinkWalletUnavailableError extends HyperLinkError {
+  constructor(message = "HyperLink wallet is not available") {
+    super(HYPERLINK_ERROR_CODE.WALLET_UNAVAILABLE, message);
+    this.name = "HyperLinkWalletUnavailableError";
+  }
+}
+
+export class HyperLinkNotAllowlistedError extends HyperLinkError {
+  constructor(message = "Application not allowlisted") {
+    super(HYPERLINK_ERROR_CODE.NOT_ALLOWLISTED, message);
+    this.name = "HyperLinkNotAllowlistedError";
+  }
+}
+
+// The login popup was blocked and the user closed the in-page prompt shown
+// instead of continuing
+export class HyperLinkPopupBlockedError extends HyperLinkError {
+  constructor(message = "HyperLink popup was blocked") {
+    super(HYPERLINK_ERROR_CODE.POPUP_BLOCKED, message);
+    this.name = "HyperLinkPopupBlockedError";
+  }
+}
+
+export class HyperLinkUnsupportedBrowserError extends HyperLinkError {
+  constructor(
+    message = "The HyperLink Wallet is not supported in this browser."
+  ) {
+    super(HYPERLINK_ERROR_CODE.UNSUPPORTED_BROWSER, message);
+    this.name = "HyperLinkUnsupportedBrowserError";
+  }
+}
+
+// The wallet answered with `sign_error`
+export class HyperLinkSigningError extends HyperLinkError {
+  constructor(message = "Unknown error while signing") {
+    super(HYPERLINK_ERROR_CODE.SIGNING_FAILED, message);
+    this.name = "HyperLinkSigningError";
+  }
+}
+
+// A transaction came back from the wallet without a valid signature for the
+// connected account, or without a co-signer's signature it was sent with
+export class HyperLinkInvalidSignatureError extends HyperLinkError {
+  constructor(message = "Transaction signature is invalid") {
+    super(HYPERLINK_ERROR_CODE.INVALID_SIGNATURE, message);
+    this.name = "HyperLinkInvalidSignatureError";
+  }
+}
+
+// The wallet returned a different transaction than it was asked to sign
+export class HyperLinkTransactionModifiedError extends HyperLinkError {
+  readonly changes: TransactionChange[];
+
+  constructor(changes: TransactionChange[]) {
+    super(
+      HYPERLINK_ERROR_CODE.TRANSACTION_MODIFIED,
+      `Wallet modified the transaction: ${changes
+        .map(({ field, detail }) => `${field} ${detail}`)
+        .join("; ")}`
+    );
+    this.name = "HyperLinkTransactionModifiedError";
+    this.changes = changes;
+  }
+}
+
+// The bytes passed to `signMessage` are a transaction or transaction message,
+// so signing them would authorize that transaction
+export class HyperLinkUnsafeMessageError extends HyperLinkError {
+  constructor(
+    message = "Refusing to sign a transaction as a message, use signTransaction instead"
+  ) {
+    super(HYPERLINK_ERROR_CODE.UNSAFE_MESSAGE, message);
+    this.name = "HyperLinkUnsafeMessageError";
+  }
+}
+
+// A transaction policy rejected the transaction before the wallet was prompted
+export class HyperLinkPolicyError extends HyperLinkError {
+  readonly policy: string;
+  readonly reason: string;
+
+  constructor(policy: string, reason: string) {
+    super(
+      HYPERLINK_ERROR_CODE.POLICY_VIOLATION,
+      `Transaction rejected by the "${policy}" policy: ${reason}`
+    );
+    this.name = "HyperLinkPolicyError";
+    this.policy = policy;
+    this.reason = reason;
+  }
+}
+
+// The request can't be made as given, e.g. a sign-in without a domain
+export class HyperLinkInvalidRequestError extends HyperLinkError {
+  constructor(message = "Invalid request") {
+    super(HYPERLINK_ERROR_CODE.INVALID_REQUEST, message);
+    this.name = "HyperLinkInvalidRequestError";
+  }
+}
+
+// Finds the HyperLinkError behind `error`, looking through the WalletError
+// wrappers the adapter adds (`error.error`) and `cause`
+export function findHyperLinkError(error: unknown): HyperLinkError | undefined {
+  const seen = new Set<unknown>();
+  let current = error;
+  while (current && typeof current === "object" && !seen.has(current)) {
+    if (current instanceof HyperLinkError) {
+      return current;
+    }
+    seen.add(current);
+    const { error: inner, cause } = current as {
+      error?: unknown;
+      cause?: unknown;
+    };
+    current = inner ?? cause;
+  }
+  return undefined;
+}
+
+export function getHyperLinkErrorCode(
+  error: unknown
+): HyperLinkErrorCode | undefined {
+  return findHyperLinkError(error)?.code;
+}
@@ -3,7 +3,10 @@ import type {
   TransactionOrVersionedTransaction,
   WalletName,
 } from "@solana/wallet-adapter-base";
-import { WalletAdapterNetwork } from "@solana/wallet-adapter-base";
+import {
+  EventEmitter,
+  WalletAdapterNetwork,
+} from "@solana/wallet-adapter-base";
 import {
   BaseSignInMessageSignerWalletAdapter,
   WalletConfigError,
@@ -18,36 +21,116 @@ import {
   WalletSignTransactionError,
 } from "@solana/wallet-adapter-base";
 import type {
+  Commitment,
   Connection,
   Transaction,
+  TransactionInstruction,
   TransactionSignature,
   TransactionVersion,
   VersionedTransaction,
 } from "@solana/web3.js";
 import { PublicKey } from "@solana/web3.js";
 import { HyperLinkEmbed } from "./embed";
+import type { HyperLinkCapability } from "./protocol";
+import {
+  HyperLinkSigningError,
+  HyperLinkUnsupportedBrowserError,
+} from "./errors";
 import {
   HYPERLINK_BUILD_ENV,
   type HYPERLINK_BUILD_ENV_TYPE,
 } from "./interfaces";
-import type {
-  SolanaSignInInput,
-  SolanaSignInOutput,
-} from "@solana/wallet-standard-features";
+import type { SolanaSignInInput } from "@solana/wallet-standard-features";
 import {
   checkAndAttachHyperLinkInstance,
   getHyperLinkUrl,
   iFrameUrl,
+  resolveTrustedOrigins,
   removePreviousWindowRef,
   HyperLinkInstanceKey,
 } from "./utils";
 import { SOLANA_MAINNET_CHAIN } from "@solana/wallet-standard-chains";
 import { registerWalletAdapter } from "./wallet-standard";
+import type { PopupOptions, PopupPosition, RequestOptions } from "./window";
+import type { HyperLinkTransport } from "./transport";
+import { Logger, type LoggerOptions, type ProtocolTraceEntry } from "./logger";
+import type { RequestQueueEvents, RequestQueueState } from "./requestQueue";
+import type { SimulationOptions } from "./simulation";
+import type { ComputeBudgetOptions } from "./computeBudget";
+import type { TransactionPolicy } from "./policies";
+import type { WalletModificationPolicy } from "./transactionDiff";
+import type { SignInDefaults } from "./signInDefaults";
+import type { HyperLinkSignInOutput } from "./siws";
+import type { SignMessageOptions } from "./offchainMessage";
+import { buildDurableNonceTransaction } from "./nonce";
+import {
+  BUILTIN_INSTRUCTION_DECODERS,
+  InstructionDecoderRegistry,
+  type InstructionDecoder,
+} from "./instructionDecoders";
+import type {
+  SendAndConfirmTransactionOptions,
+  SendAndConfirmTransactionResult,
+} from "./confirmation";
+import type {
+  SignAndSendAllTransactionsOptions,
+  SignAndSendTransactionResult,
+} from "./broadcast";
 import { showDialog } from "./dialog";
 import { v4 as uuid } from "uuid";
 import { Buffer } from "buffer";
 
-export type { HYPERLINK_BUILD_ENV_TYPE };
+export type {
+  HYPERLINK_BUILD_ENV_TYPE,
+  PopupOptions,
+  PopupPosition,
+  RequestOptions,
+};
+export * from "./errors";
+export * from "./protocol";
+export * from "./transport";
+export * from "./logger";
+export type {
+  QueuedRequest,
+  RequestQueueEvents,
+  RequestQueueState,
+} from "./requestQueue";
+export * from "./simulator";
+export * from "./simulation";
+export * from "./policies";
+export * from "./instructionDecoders";
+export {
+  buildDurableNonceTransaction,
+  getDurableNonce,
+  getDurableNonceAccount,
+  isDurableNonceTransaction,
+  type DurableNonceTransactionOptions,
+} from "./nonce";
+export {
+  getMissingSigners,
+  getSignerStatuses,
+  isSignedBy,
+  serializePartiallySigned,
+  type SignerStatus,
+} from "./signatures";
+export * from "./transactionDiff";
+export * from "./offchainMessage";
+export * from "./siws";
+export * from "./signInDefaults";
+export type {
+  ComputeBudgetOptions,
+  PriorityFeeStrategy,
+} from "./computeBudget";
+export type {
+  ConfirmationProgress,
+  SendAndConfirmTransactionOptions,
+  SendAndConfirmTransactionResult,
+} from "./confirmation";
+export type {
+  BroadcastMode,
+  SignAndSendAllTransactionsOptions,
+  SignAndSendTransactionResult,
+} from "./broadcast";
 
 interface HyperLinkWindow extends Window {}
 
@@ -70,7 +153,7 @@ export type CustomSolanaSignInInput =
   | (() => Promise<SolanaSignInInput>);
 
 type ConnectOutput = {
-  siwsOutput?: SolanaSignInOutput;
+  siwsOutput?: HyperLinkSignInOutput;
 };
 type WalletAdapterConfig = {
   // Reach out to the HyperLink team for a clientId
@@ -85,6 +168,37 @@ type WalletAdapterConfig = {
   walletAdapterNetwork?:
     | WalletAdapterNetwork.Mainnet
     | WalletAdapterNetwork.Devnet;
+  // Reject signing requests that get no answer from the wallet in time
+  requestTimeoutMs?: number;
+  // Reach the wallet through something other than window.postMessage, e.g. a
+  // HyperLinkHostSimulator in tests
+  transport?: HyperLinkTransport;
+  // Size and placement of the login popup
+  popup?: PopupOptions;
+  // Log level, namespaces and sink, plus an opt-in trace of protocol messages
+  logger?: LoggerOptions;
+  // Origins the wallet may be served from, e.g. for a white-labelled domain.
+  // The first one hosts the iframe and popup. Ignored with a custom transport.
+  trustedOrigins?: string[];
+  // Simulate transactions before the wallet is prompted and preview their
+  // balance changes. Off if unset.
+  simulation?: SimulationOptions;
+  // Default priority fee and compute unit limit for `sendTransaction` and the
+  // other sending methods. Each call can override them in its options.
+  computeBudget?: ComputeBudgetOptions;
+  // Checked against every transaction before the wallet is prompted, see
+  // `addPolicy` to register more later
+  policies?: TransactionPolicy[];
+  // Decoders for the dApp's own programs, used for the instruction summaries
+  // shown by the wallet. System, SPL Token, Token-2022, Memo, Compute Budget
+  // and Associated Token Account instructions are decoded out of the box.
+  instructionDecoders?: InstructionDecoder[];
+  // What the wallet may change in a transaction before signing it. Anything
+  // else rejects with HyperLinkTransactionModifiedError. Defaults to false.
+  allowWalletModifications?: WalletModificationPolicy;
+  // Nonce, `issuedAt`, `expirationTime`, `uri` and `version` filled in for
+  // sign-ins that leave them unset. Off unless set, `{}` uses the defaults.
+  signInDefaults?: SignInDefaults;
 };
 
 // preload for iframe doesn't work https://bugs.chromium.org/p/chromium/issues/detail?id=593267
@@ -94,7 +208,9 @@ async function preLoadIframe(
   walletAdapterNetwork:
     | WalletAdapterNetwork.Mainnet
     | WalletAdapterNetwork.Devnet,
-  theme?: HyperLinkWalletAdapterTheme
+  theme?: HyperLinkWalletAdapterTheme,
+  trustedOrigins?: string[],
+  transport?: HyperLinkTransport
 ) {
   try {
     if (typeof document === "undefined" || typeof window === "undefined") {
@@ -106,6 +222,9 @@ async function preLoadIframe(
       clientId,
       walletAdapterNetwork,
       theme: theme !== "system" ? theme : undefined,
+      // the same origin the embed will load the iframe from
+      hostUrl:
+        transport?.origin ?? resolveTrustedOrigins(buildEnv, trustedOrigins)[0],
     });
     hyperLinkIframeHtml.href = hyperLinkUrl;
     hyperLinkIframeHtml.crossOrigin = "anonymous";
@@ -132,6 +251,17 @@ export const registerHyperLinkWallet = ({
   installedOnDesktop,
   installedOnIos,
   walletAdapterNetwork,
+  requestTimeoutMs,
+  transport,
+  popup,
+  logger,
+  trustedOrigins,
+  simulation,
+  computeBudget,
+  policies,
+  instructionDecoders,
+  allowWalletModifications,
+  signInDefaults,
 }: WalletAdapterConfig & {
   rpcUrl: string;
 }) => {
@@ -150,6 +280,17 @@ export const registerHyperLinkWallet = ({
       installedOnDesktop,
       installedOnIos,
       walletAdapterNetwork,
+      requestTimeoutMs,
+      transport,
+      popup,
+      logger,
+      trustedOrigins,
+      simulation,
+      computeBudget,
+      policies,
+      instructionDecoders,
+      allowWalletModifications,
+      signInDefaults,
     }),
     SOLANA_MAINNET_CHAIN,
     rpcUrl
@@ -157,7 +298,6 @@ export const registerHyperLinkWallet = ({
 };
 
 function sanitizeUrlForAllowList(urlString: string): string {
-  console.log(urlString);
   const url = new URL(urlString);
   const { protocol, hostname, port } = url;
   return `${protocol}//${hostname}${port ? `:${port}` : ""}`;
@@ -167,8 +307,15 @@ async function checkIfAllowListed(
   buildEnv: HYPERLINK_BUILD_ENV_TYPE,
   clientId: string,
   url: string,
-  failCallback: () => void
+  failCallback: () => void,
+  transport?: HyperLinkTransport
 ) {
+  if (transport?.checkAllowList) {
+    if (!(await transport.checkAllowList(clientId, url))) {
+      failCallback();
+    }
+    return;
+  }
   const referrerUrl = sanitizeUrlForAllowList(url);
   const data = JSON.stringify({ clientId, referrerUrl });
   const b64Referrer = Buffer.from(data).toString("base64");
@@ -302,6 +449,23 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     | WalletAdapterNetwork.Devnet;
   private _showWallet: ((page?: EmbeddedWalletPage) => void) | undefined;
   private _hideWallet: (() => void) | undefined;
+  private _requestTimeoutMs: number | undefined;
+  private readonly _transport: HyperLinkTransport | undefined;
+  private readonly _popup: PopupOptions | undefined;
+  private readonly _logger: Logger;
+  private readonly _trustedOrigins: string[] | undefined;
+  private readonly _simulation: SimulationOptions | undefined;
+  private readonly _computeBudget: ComputeBudgetOptions | undefined;
+  // shared with the embed, which reads it on every request
+  private readonly _policies: TransactionPolicy[];
+  private readonly _decoders: InstructionDecoderRegistry;
+  private readonly _allowWalletModifications:
+    | WalletModificationPolicy
+    | undefined;
+  private readonly _signInDefaults: SignInDefaults | undefined;
+  // outlives the embed, so listeners survive reconnects
+  private readonly _requestQueueEvents = new EventEmitter<RequestQueueEvents>();
+  private readonly logger: Logger;
 
   constructor({
     theme,
@@ -313,8 +477,21 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     hideDraggableWidget = false,
     hideWalletOnboard = false,
     walletAdapterNetwork = WalletAdapterNetwork.Mainnet,
+    requestTimeoutMs,
+    transport,
+    popup,
+    logger,
+    trustedOrigins,
+    simulation,
+    computeBudget,
+    policies = [],
+    instructionDecoders = [],
+    allowWalletModifications,
+    signInDefaults,
   }: WalletAdapterConfig) {
     super();
+    this._logger = new Logger(logger);
+    this.logger = this._logger.child("adapter");
     this._buildEnv = HYPERLINK_BUILD_ENV.PRODUCTION; // TODO: only allow HYPERLINK_BUILD_ENV.PRODUCTION;
     if (typeof window !== "undefined") {
       void checkIfAllowListed(
@@ -325,7 +502,8 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
           this._isDisallowed = true;
           this._wallet?.notifyDisallowed();
           this.disconnect();
-        }
+        },
+        transport
       );
     }
     this._forceIframe =
@@ -336,7 +514,14 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       isPWA();
 
     this.dAppSessionId = uuid();
-    preLoadIframe(this._buildEnv, clientId, walletAdapterNetwork, theme);
+    preLoadIframe(
+      this._buildEnv,
+      clientId,
+      walletAdapterNetwork,
+      theme,
+      trustedOrigins,
+      transport
+    );
     this._title = title;
     this._connecting = false;
     this._disconnected = false;
@@ -351,6 +536,19 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     this._hideDraggableWidget = hideDraggableWidget;
     this._hideWalletOnboard = hideWalletOnboard;
     this._walletAdapterNetwork = walletAdapterNetwork;
+    this._requestTimeoutMs = requestTimeoutMs;
+    this._transport = transport;
+    this._popup = popup;
+    this._trustedOrigins = trustedOrigins;
+    this._simulation = simulation;
+    this._computeBudget = computeBudget;
+    this._policies = [...policies];
+    this._allowWalletModifications = allowWalletModifications;
+    this._signInDefaults = signInDefaults;
+    this._decoders = new InstructionDecoderRegistry([
+      ...BUILTIN_INSTRUCTION_DECODERS,
+      ...instructionDecoders,
+    ]);
     checkAndAttachHyperLinkInstance(this);
   }
 
@@ -366,6 +564,54 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     return !!this._wallet?.isLoggedIn;
   }
 
+  // Empty until the iframe handshake completes
+  get capabilities(): ReadonlySet<HyperLinkCapability> {
+    return this._wallet?.capabilities ?? new Set();
+  }
+
+  supports(capability: HyperLinkCapability): boolean {
+    return !!this._wallet?.supports(capability);
+  }
+
+  // Registers a policy for every later transaction, returns a function that
+  // removes it again
+  addPolicy(policy: TransactionPolicy): () => void {
+    this._policies.push(policy);
+    return () => {
+      const index = this._policies.indexOf(policy);
+      if (index !== -1) {
+        this._policies.splice(index, 1);
+      }
+    };
+  }
+
+  // Decodes a program's instructions in the summaries sent to the wallet,
+  // returns a function that unregisters it
+  registerInstructionDecoder(decoder: InstructionDecoder): () => void {
+    return this._decoders.register(decoder);
+  }
+
+  // Wallet requests are shown one at a time, the rest wait here
+  get requestQueueState(): RequestQueueState {
+    return this._wallet?.requestQueueState ?? { length: 0, current: undefined };
+  }
+
+  // Called with the queue state whenever a request starts, finishes or starts
+  // waiting; returns a function that stops listening
+  onRequestQueueChange(
+    listener: (state: RequestQueueState) => void
+  ): () => void {
+    this._requestQueueEvents.on("change", listener);
+    return () => {
+      this._requestQueueEvents.off("change", listener);
+    };
+  }
+
+  // Empty unless the `logger.trace` option is set
+  getProtocolTrace(): ProtocolTraceEntry[] {
+    return this._logger.trace.getEntries();
+  }
+
   get readyState() {
     const isAndroid = isMobileAndroid();
     const isiOS = isMobileiOS();
@@ -382,6 +628,10 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       : installedToWalletReadyState(isInstalled);
   }
 
+  private _requestQueueChanged = (state: RequestQueueState) => {
+    this._requestQueueEvents.emit("change", state);
+  };
+
   private _accountChanged = (newPublicKeyString: string) => {
     const publicKey = this._publicKey;
     if (!publicKey) return;
@@ -417,21 +667,16 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     siwsInput?: CustomSolanaSignInInput;
     autoConnect?: boolean;
   }): Promise<ConnectOutput | undefined> {
-    console.log(
-      "BEGIN: connecting status for iden",
-      this.connecting,
-      this._iden
-    );
+    this.logger.debug("connecting", this._iden);
     if (isInApp()) {
-      console.log("is in app, returning");
+      this.logger.info("in-app browser detected, not connecting");
       this.disconnect();
       showDialog(
-        this._buildEnv,
+        this._transport?.origin ??
+          resolveTrustedOrigins(this._buildEnv, this._trustedOrigins)[0],
         "<p>The HyperLink Wallet is not supported in this browser. Please open this page in your default browser instead.</p>"
       );
-      return Promise.reject(
-        "The HyperLink Wallet is not supported in this browser."
-      );
+      return Promise.reject(new HyperLinkUnsupportedBrowserError());
     }
 
     if (this.connected || this.connecting) return;
@@ -444,7 +689,7 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       autoConnect = true;
     }
 
-    let solanaSignInOutput: SolanaSignInOutput | undefined;
+    let solanaSignInOutput: HyperLinkSignInOutput | undefined;
     this._disconnected = false;
     try {
       if (
@@ -454,8 +699,6 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
         throw new WalletNotReadyError();
       }
 
-      // console.log("adapter.connect, importing Torus");
-      // console.log("setting connecting to be true");
       this._connecting = true;
 
       // let TorusClass: typeof Torus;
@@ -467,7 +710,6 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       // }
 
       let wallet: HyperLinkEmbed;
-      console.log("checking object on window during connect", window);
       try {
         wallet = new HyperLinkEmbed(
           this._title,
@@ -478,12 +720,24 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
           this._walletAdapterNetwork,
           () => {
             return this._isDisallowed;
+          },
+          {
+            requestTimeoutMs: this._requestTimeoutMs,
+            transport: this._transport,
+            popup: this._popup,
+            logger: this._logger,
+            trustedOrigins: this._trustedOrigins,
+            simulation: this._simulation,
+            computeBudget: this._computeBudget,
+            policies: this._policies,
+            decoders: this._decoders,
+            allowWalletModifications: this._allowWalletModifications,
+            signInDefaults: this._signInDefaults,
           }
         );
       } catch (error: any) {
         throw new WalletConfigError(error?.message, error);
       }
-      // console.log("adapter.connect, initializing wallet");
       // add wallet ref here to unmount even if user cancels flow
       this._wallet = wallet;
       let publicKey: PublicKey;
@@ -506,16 +760,6 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
         });
         publicKey = new PublicKey(pk);
         solanaSignInOutput = siwsOutput;
-        // console.log(
-        //   "DONE WALLET INIT!! connecting status right now is",
-        //   this._connecting,
-        //   "disconnected",
-        //   this._disconnected,
-        //   "public key",
-        //   pk,
-        //   "siws output",
-        //   siwsOutput
-        // );
       } catch (error: any) {
         await this.disconnect();
         throw new WalletConnectionError(error?.message, error);
@@ -538,19 +782,18 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       this.removeQueryParam("promptHyperLinkAutoConnect");
 
       wallet.on("accountChanged", this._accountChanged);
+      wallet.on("requestQueueChanged", this._requestQueueChanged);
 
       this._publicKey = publicKey;
 
       localStorage.setItem("hyperLink_pk_connected", publicKey.toBase58());
       this.emit("connect", publicKey);
-      console.log("FINISHED connecting");
-      console.log("adapter.connect, connected");
+      this.logger.debug("connected", this._iden);
     } catch (error: any) {
-      console.error("ERROR: error was", error);
+      this.logger.error("failed to connect", error);
       this.emit("error", error);
       throw error;
     } finally {
-      console.log("END: setting connecting to be false", this._iden);
       this._connecting = false;
     }
     return {
@@ -581,6 +824,7 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       this._wallet = null;
       this._publicKey = null;
       wallet.off("accountChanged", this._accountChanged);
+      wallet.off("requestQueueChanged", this._requestQueueChanged);
 
       // console.log("is wallet logged in", wallet.isLoggedIn);
       try {
@@ -595,11 +839,14 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       }
     }
 
+    // requests still waiting were rejected along with the embed
+    this._requestQueueChanged(this.requestQueueState);
     this.emit("disconnect");
   }
 
   async signTransaction<T extends Transaction | VersionedTransaction>(
-    transaction: T
+    transaction: T,
+    options?: RequestOptions
   ): Promise<T> {
     try {
       const wallet = this._wallet;
@@ -608,7 +855,8 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
       // console.log("singing transaction in wallet adapter!!");
       try {
         return (
-          ((await wallet.signTransaction(transaction)) as T) || transaction
+          ((await wallet.signTransaction(transaction, options)) as T) ||
+          transaction
         );
       } catch (error: any) {
         throw new WalletSignTransactionError(error?.message, error);
@@ -620,7 +868,8 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
   }
 
   async signAllTransactions<T extends Transaction | VersionedTransaction>(
-    transactions: T[]
+    transactions: T[],
+    options?: RequestOptions
   ): Promise<T[]> {
     try {
       const wallet = this._wallet;
@@ -628,7 +877,7 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
 
       try {
         return (
-          ((await wallet.signAllTransactions(transactions)) as T[]) ||
+          ((await wallet.signAllTransactions(transactions, options)) as T[]) ||
           transactions
         );
       } catch (error: any) {
@@ -640,13 +889,16 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     }
   }
 
-  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+  async signMessage(
+    message: Uint8Array,
+    options?: SignMessageOptions
+  ): Promise<Uint8Array> {
     try {
       const wallet = this._wallet;
       if (!wallet || !this.connected) throw new WalletNotConnectedError();
 
       try {
-        const { signature } = await wallet.signMessage(message);
+        const { signature } = await wallet.signMessage(message, options);
         return signature;
       } catch (error: any) {
         throw new WalletSignMessageError(error?.message, error);
@@ -657,12 +909,57 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     }
   }
 
+  // Signs `message` in the Solana off-chain message format. Verify the
+  // signature against `signedMessage`, the encoded bytes that were signed.
+  async signOffchainMessage(
+    message: string | Uint8Array,
+    options?: RequestOptions
+  ): Promise<{ signedMessage: Uint8Array; signature: Uint8Array }> {
+    try {
+      const wallet = this._wallet;
+      if (!wallet || !this.connected) throw new WalletNotConnectedError();
+
+      try {
+        return await wallet.signOffchainMessage(message, options);
+      } catch (error: any) {
+        throw new WalletSignMessageError(error?.message, error);
+      }
+    } catch (error: any) {
+      this.emit("error", error);
+      throw error;
+    }
+  }
+
+  // Signs every message after a single approval. Check
+  // `supports(HYPERLINK_CAPABILITY.BATCH_MESSAGE_SIGNING)` first, older wallet
+  // builds only sign one message per prompt.
+  async signAllMessages(
+    messages: Uint8Array[],
+    options?: SignMessageOptions
+  ): Promise<Uint8Array[]> {
+    try {
+      const wallet = this._wallet;
+      if (!wallet || !this.connected) throw new WalletNotConnectedError();
+
+      try {
+        const { signatures } = await wallet.signAllMessages(messages, options);
+        return signatures;
+      } catch (error: any) {
+        throw new WalletSignMessageError(error?.message, error);
+      }
+    } catch (error: any) {
+      this.emit("error", error);
+      throw error;
+    }
+  }
+
   async sendTransaction(
     transaction: TransactionOrVersionedTransaction<
       this["supportedTransactionVersions"]
     >,
     connection: Connection,
-    options: SendTransactionOptions = {}
+    options: SendTransactionOptions & ComputeBudgetOptions = {},
+    requestOptions?: RequestOptions
   ): Promise<TransactionSignature> {
     try {
       const wallet = this._wallet;
@@ -672,7 +969,8 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
         transaction,
         this.prepareTransaction.bind(this),
         connection,
-        options
+        options,
+        requestOptions
       );
     } catch (error: any) {
       // This logic differs from the default `sendTransaction` method in BaseSignerWalletAdapter.
@@ -685,7 +983,85 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     }
   }
 
-  async signIn(input?: CustomSolanaSignInInput): Promise<SolanaSignInOutput> {
+  // Sends like `sendTransaction`, then rebroadcasts until the transaction is
+  // confirmed or its blockhash expires. Check the result's `status`.
+  async sendAndConfirmTransaction(
+    transaction: TransactionOrVersionedTransaction<
+      this["supportedTransactionVersions"]
+    >,
+    connection: Connection,
+    options: SendAndConfirmTransactionOptions = {},
+    requestOptions?: RequestOptions
+  ): Promise<SendAndConfirmTransactionResult> {
+    try {
+      const wallet = this._wallet;
+      if (!wallet || !this.connected) throw new WalletNotConnectedError();
+
+      return await wallet.sendAndConfirmTransaction(
+        transaction,
+        this.prepareTransaction.bind(this),
+        connection,
+        options,
+        requestOptions
+      );
+    } catch (error: any) {
+      this.emit("error", error);
+      throw error;
+    }
+  }
+
+  // A transaction that advances `nonceAccount` and uses its nonce as the
+  // blockhash, paid for by the connected account, which must also be the
+  // nonce authority. It stays valid until the nonce is advanced, so it can be
+  // signed now and sent later.
+  async buildDurableNonceTransaction(
+    connection: Connection,
+    nonceAccount: PublicKey,
+    instructions: TransactionInstruction[],
+    commitment?: Commitment
+  ): Promise<Transaction> {
+    const publicKey = this._publicKey;
+    if (!publicKey) throw new WalletNotConnectedError();
+    return buildDurableNonceTransaction(connection, {
+      nonceAccount,
+      nonceAuthority: publicKey,
+      feePayer: publicKey,
+      instructions,
+      commitment,
+    });
+  }
+
+  // Signs every transaction in one prompt, then sends them in `options.mode`.
+  // Check each result's `status`: a failed send doesn't reject the call.
+  async signAndSendAllTransactions(
+    transactions: TransactionOrVersionedTransaction<
+      this["supportedTransactionVersions"]
+    >[],
+    connection: Connection,
+    options: SignAndSendAllTransactionsOptions = {},
+    requestOptions?: RequestOptions
+  ): Promise<SignAndSendTransactionResult[]> {
+    try {
+      const wallet = this._wallet;
+      if (!wallet || !this.connected) throw new WalletNotConnectedError();
+
+      return await wallet.signAndSendAllTransactions(
+        transactions,
+        this.prepareTransaction.bind(this),
+        connection,
+        options,
+        requestOptions
+      );
+    } catch (error: any) {
+      this.emit("error", error);
+      throw error;
+    }
+  }
+
+  async signIn(
+    input?: CustomSolanaSignInInput,
+    options?: RequestOptions
+  ): Promise<HyperLinkSignInOutput> {
     // console.log("triggering sign in!");
     try {
       if (!this.connected) {
@@ -695,7 +1071,7 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
         const siwsOutput = output?.siwsOutput;
         if (input) {
           if (!siwsOutput) {
-            throw new Error("No Solana Sign In Output");
+            throw new HyperLinkSigningError("No Solana Sign In Output");
           }
           return siwsOutput;
         }
@@ -714,7 +1090,7 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
             : input
               ? Promise.resolve(input)
               : undefined;
-        const siwsOutput = await wallet.signIn(siwsInput);
+        const siwsOutput = await wallet.signIn(siwsInput, options);
 
         return siwsOutput;
       } catch (error: any) {
@@ -730,8 +1106,8 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     if (this._showWallet) {
       this._showWallet(page);
     } else {
-      console.error(
-        `HyperLinkWalletAdapter Error: "showWallet" method not found, please refresh or try again.`
+      this.logger.error(
+        `"showWallet" method not found, please refresh or try again.`
       );
     }
   }
@@ -740,8 +1116,8 @@ export class HyperLinkWalletAdapter extends BaseSignInMessageSignerWalletAdapter
     if (this._hideWallet) {
       this._hideWallet();
     } else {
-      console.error(
-        `HyperLinkWalletAdapter Error: "hideWallet" method not found, please refresh or try again.`
+      this.logger.error(
+        `"hideWallet" method not found, please refresh or try again.`
       );
     }
   }
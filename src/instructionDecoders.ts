@@ -0,0 +1,462 @@
+import { isVersionedTransaction } from "@solana/wallet-adapter-base";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  type Connection,
+  type Transaction,
+  type TransactionInstruction,
+  type TransactionVersion,
+  type VersionedTransaction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { loadAddressLookupTables, transactionInstructions } from "./policies";
+import { TOKEN_PROGRAM_IDS } from "./simulation";
+
+const MEMO_PROGRAM_IDS = [
+  "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr",
+  "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo",
+];
+const ASSOCIATED_TOKEN_PROGRAM_ID =
+  "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+
+// u64 amounts are strings so they survive postMessage and JSON unchanged
+export type InstructionParam = string | number | boolean | null;
+
+export type DecodedInstruction = {
+  // e.g. "transfer"
+  type: string;
+  params: Record<string, InstructionParam>;
+};
+
+export type InstructionDecoder = {
+  // shown to the user, e.g. "System Program"
+  name: string;
+  programIds: (PublicKey | string)[];
+  // undefined if the instruction isn't recognised
+  decode(instruction: TransactionInstruction): DecodedInstruction | undefined;
+};
+
+export type InstructionSummary = {
+  programId: string;
+  // name of the decoder registered for the program
+  program: string | undefined;
+  // undefined when no decoder recognised the instruction
+  type: string | undefined;
+  params: Record<string, InstructionParam>;
+  accounts: {
+    // null for an account in an address lookup table that couldn't be loaded
+    address: string | null;
+    isSigner: boolean;
+    isWritable: boolean;
+  }[];
+  // base64, only for instructions that weren't decoded
+  data: string | undefined;
+};
+
+export type TransactionSummary = {
+  version: TransactionVersion;
+  // false when the transaction uses address lookup tables that couldn't be
+  // loaded; its instructions are then left undecoded
+  lookupTablesResolved: boolean;
+  instructions: InstructionSummary[];
+};
+
+type AccountLayout = readonly string[];
+
+// Names the accounts of `instruction` in order, extra ones are ignored
+function namedAccounts(
+  instruction: TransactionInstruction,
+  names: AccountLayout
+): Record<string, string> {
+  const accounts: Record<string, string> = {};
+  names.forEach((name, index) => {
+    const key = instruction.keys[index];
+    if (key) accounts[name] = key.pubkey.toBase58();
+  });
+  return accounts;
+}
+
+// PublicKeys become base58 and bigints strings
+function toParams(decoded: object): Record<string, InstructionParam> {
+  const params: Record<string, InstructionParam> = {};
+  for (const [key, value] of Object.entries(decoded)) {
+    if (value instanceof PublicKey) {
+      params[key] = value.toBase58();
+    } else if (typeof value === "bigint") {
+      params[key] = value.toString();
+    } else if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean" ||
+      value === null
+    ) {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+const SYSTEM_INSTRUCTIONS: Record<
+  string,
+  [string, ((instruction: TransactionInstruction) => object) | undefined]
+> = {
+  Create: ["createAccount", (ix) => SystemInstruction.decodeCreateAccount(ix)],
+  CreateWithSeed: [
+    "createAccountWithSeed",
+    (ix) => SystemInstruction.decodeCreateWithSeed(ix),
+  ],
+  Assign: ["assign", (ix) => SystemInstruction.decodeAssign(ix)],
+  AssignWithSeed: [
+    "assignWithSeed",
+    (ix) => SystemInstruction.decodeAssignWithSeed(ix),
+  ],
+  Transfer: ["transfer", (ix) => SystemInstruction.decodeTransfer(ix)],
+  TransferWithSeed: [
+    "transferWithSeed",
+    (ix) => SystemInstruction.decodeTransferWithSeed(ix),
+  ],
+  Allocate: ["allocate", (ix) => SystemInstruction.decodeAllocate(ix)],
+  AllocateWithSeed: [
+    "allocateWithSeed",
+    (ix) => SystemInstruction.decodeAllocateWithSeed(ix),
+  ],
+  AdvanceNonceAccount: [
+    "advanceNonceAccount",
+    (ix) => SystemInstruction.decodeNonceAdvance(ix),
+  ],
+  WithdrawNonceAccount: [
+    "withdrawNonceAccount",
+    (ix) => SystemInstruction.decodeNonceWithdraw(ix),
+  ],
+  InitializeNonceAccount: [
+    "initializeNonceAccount",
+    (ix) => SystemInstruction.decodeNonceInitialize(ix),
+  ],
+  AuthorizeNonceAccount: [
+    "authorizeNonceAccount",
+    (ix) => SystemInstruction.decodeNonceAuthorize(ix),
+  ],
+  UpgradeNonceAccount: ["upgradeNonceAccount", undefined],
+};
+
+const systemDecoder: InstructionDecoder = {
+  name: "System Program",
+  programIds: [SystemProgram.programId],
+  decode: (instruction) => {
+    const [type, decode] =
+      SYSTEM_INSTRUCTIONS[SystemInstruction.decodeInstructionType(instruction)];
+    return { type, params: decode ? toParams(decode(instruction)) : {} };
+  },
+};
+
+// SPL Token instructions shared by Token-2022; extensions aren't decoded
+const TOKEN_INSTRUCTIONS: Record<
+  number,
+  { type: string; accounts: AccountLayout; data?: "amount" | "checked" }
+> = {
+  1: { type: "initializeAccount", accounts: ["account", "mint", "owner"] },
+  3: {
+    type: "transfer",
+    accounts: ["source", "destination", "owner"],
+    data: "amount",
+  },
+  4: {
+    type: "approve",
+    accounts: ["source", "delegate", "owner"],
+    data: "amount",
+  },
+  5: { type: "revoke", accounts: ["source", "owner"] },
+  7: {
+    type: "mintTo",
+    accounts: ["mint", "account", "authority"],
+    data: "amount",
+  },
+  8: { type: "burn", accounts: ["account", "mint", "owner"], data: "amount" },
+  9: { type: "closeAccount", accounts: ["account", "destination", "owner"] },
+  10: { type: "freezeAccount", accounts: ["account", "mint", "authority"] },
+  11: { type: "thawAccount", accounts: ["account", "mint", "authority"] },
+  12: {
+    type: "transferChecked",
+    accounts: ["source", "mint", "destination", "owner"],
+    data: "checked",
+  },
+  13: {
+    type: "approveChecked",
+    accounts: ["source", "mint", "delegate", "owner"],
+    data: "checked",
+  },
+  14: {
+    type: "mintToChecked",
+    accounts: ["mint", "account", "authority"],
+    data: "checked",
+  },
+  15: {
+    type: "burnChecked",
+    accounts: ["account", "mint", "owner"],
+    data: "checked",
+  },
+  16: { type: "initializeAccount2", accounts: ["account", "mint"] },
+  17: { type: "syncNative", accounts: ["account"] },
+  18: { type: "initializeAccount3", accounts: ["account", "mint"] },
+};
+
+const TOKEN_AUTHORITY_TYPES = [
+  "mintTokens",
+  "freezeAccount",
+  "accountOwner",
+  "closeAccount",
+];
+
+// COption<Pubkey> in instruction data: a 1 byte tag, then the key
+function optionalPublicKey(data: Buffer, offset: number): string | null {
+  return data[offset] === 1 && data.length >= offset + 33
+    ? new PublicKey(data.subarray(offset + 1, offset + 33)).toBase58()
+    : null;
+}
+
+const tokenDecoder: InstructionDecoder = {
+  name: "Token Program",
+  programIds: TOKEN_PROGRAM_IDS,
+  decode: (instruction) => {
+    const data = Buffer.from(instruction.data);
+    const discriminator = data[0];
+    if (discriminator === 0 || discriminator === 20) {
+      return {
+        type: discriminator === 0 ? "initializeMint" : "initializeMint2",
+        params: {
+          ...namedAccounts(instruction, ["mint"]),
+          decimals: data[1],
+          mintAuthority: new PublicKey(data.subarray(2, 34)).toBase58(),
+          freezeAuthority: optionalPublicKey(data, 34),
+        },
+      };
+    }
+    if (discriminator === 6) {
+      return {
+        type: "setAuthority",
+        params: {
+          ...namedAccounts(instruction, ["account", "currentAuthority"]),
+          authorityType: TOKEN_AUTHORITY_TYPES[data[1]] ?? data[1],
+          newAuthority: optionalPublicKey(data, 2),
+        },
+      };
+    }
+    const layout = TOKEN_INSTRUCTIONS[discriminator];
+    if (!layout) {
+      return undefined;
+    }
+    const params: Record<string, InstructionParam> = namedAccounts(
+      instruction,
+      layout.accounts
+    );
+    if (layout.data) {
+      params.amount = data.readBigUInt64LE(1).toString();
+    }
+    if (layout.data === "checked") {
+      params.decimals = data[9];
+    }
+    return { type: layout.type, params };
+  },
+};
+
+const memoDecoder: InstructionDecoder = {
+  name: "Memo Program",
+  programIds: MEMO_PROGRAM_IDS,
+  decode: (instruction) => ({
+    type: "memo",
+    params: { memo: Buffer.from(instruction.data).toString("utf8") },
+  }),
+};
+
+const computeBudgetDecoder: InstructionDecoder = {
+  name: "Compute Budget Program",
+  programIds: [ComputeBudgetProgram.programId],
+  decode: (instruction): DecodedInstruction | undefined => {
+    const data = Buffer.from(instruction.data);
+    switch (data[0]) {
+      case 1:
+        return {
+          type: "requestHeapFrame",
+          params: { bytes: data.readUInt32LE(1) },
+        };
+      case 2:
+        return {
+          type: "setComputeUnitLimit",
+          params: { units: data.readUInt32LE(1) },
+        };
+      case 3:
+        return {
+          type: "setComputeUnitPrice",
+          params: { microLamports: data.readBigUInt64LE(1).toString() },
+        };
+      case 4:
+        return {
+          type: "setLoadedAccountsDataSizeLimit",
+          params: { bytes: data.readUInt32LE(1) },
+        };
+      default:
+        return undefined;
+    }
+  },
+};
+
+const ASSOCIATED_TOKEN_INSTRUCTIONS = [
+  "create",
+  "createIdempotent",
+  "recoverNested",
+];
+
+const associatedTokenDecoder: InstructionDecoder = {
+  name: "Associated Token Account Program",
+  programIds: [ASSOCIATED_TOKEN_PROGRAM_ID],
+  decode: (instruction) => {
+    // `create` predates the discriminator and may have no data at all
+    const type = ASSOCIATED_TOKEN_INSTRUCTIONS[instruction.data[0] ?? 0];
+    if (!type) {
+      return undefined;
+    }
+    return {
+      type,
+      params:
+        type === "recoverNested"
+          ? namedAccounts(instruction, [
+              "nestedAccount",
+              "nestedMint",
+              "destination",
+              "ownerAccount",
+              "ownerMint",
+              "wallet",
+            ])
+          : namedAccounts(instruction, ["payer", "account", "wallet", "mint"]),
+    };
+  },
+};
+
+export const BUILTIN_INSTRUCTION_DECODERS: readonly InstructionDecoder[] = [
+  systemDecoder,
+  tokenDecoder,
+  memoDecoder,
+  computeBudgetDecoder,
+  associatedTokenDecoder,
+];
+
+// Turns transactions into summaries the wallet can show next to the raw
+// transaction. Decoders registered later replace earlier ones for the same
+// program.
+export class InstructionDecoderRegistry {
+  private readonly decoders = new Map<string, InstructionDecoder>();
+
+  constructor(
+    decoders: readonly InstructionDecoder[] = BUILTIN_INSTRUCTION_DECODERS
+  ) {
+    decoders.forEach((decoder) => this.register(decoder));
+  }
+
+  // Returns a function that removes the decoder again, restoring whatever it
+  // replaced
+  register(decoder: InstructionDecoder): () => void {
+    const programIds = decoder.programIds.map((programId) =>
+      new PublicKey(programId).toBase58()
+    );
+    const replaced = programIds.map((programId) =>
+      this.decoders.get(programId)
+    );
+    programIds.forEach((programId) => this.decoders.set(programId, decoder));
+    return () => {
+      programIds.forEach((programId, index) => {
+        if (this.decoders.get(programId) !== decoder) return;
+        const previous = replaced[index];
+        if (previous) {
+          this.decoders.set(programId, previous);
+        } else {
+          this.decoders.delete(programId);
+        }
+      });
+    };
+  }
+
+  summarizeInstruction(
+    instruction: TransactionInstruction
+  ): InstructionSummary {
+    const programId = instruction.programId.toBase58();
+    const decoder = this.decoders.get(programId);
+    let decoded: DecodedInstruction | undefined;
+    try {
+      decoded = decoder?.decode(instruction);
+    } catch {
+      // malformed data, shown undecoded
+    }
+    return {
+      programId,
+      program: decoder?.name,
+      type: decoded?.type,
+      params: decoded?.params ?? {},
+      accounts: instruction.keys.map(({ pubkey, isSigner, isWritable }) => ({
+        address: pubkey.toBase58(),
+        isSigner,
+        isWritable,
+      })),
+      data: decoded
+        ? undefined
+        : Buffer.from(instruction.data).toString("base64"),
+    };
+  }
+
+  // Address lookup tables are loaded through `connection`; without one, or if
+  // they can't be loaded, accounts from them are left as null
+  async summarizeTransaction(
+    transaction: Transaction | VersionedTransaction,
+    connection?: Connection
+  ): Promise<TransactionSummary> {
+    if (!isVersionedTransaction(transaction)) {
+      return {
+        version: "legacy",
+        lookupTablesResolved: true,
+        instructions: transaction.instructions.map((instruction) =>
+          this.summarizeInstruction(instruction)
+        ),
+      };
+    }
+    const { message } = transaction;
+    if (message.addressTableLookups.length === 0 || connection) {
+      try {
+        const lookupTables = connection
+          ? await loadAddressLookupTables(connection, transaction)
+          : [];
+        return {
+          version: transaction.version,
+          lookupTablesResolved: true,
+          instructions: transactionInstructions(transaction, lookupTables).map(
+            (instruction) => this.summarizeInstruction(instruction)
+          ),
+        };
+      } catch {
+        // fall through to the unresolved summary
+      }
+    }
+    const { staticAccountKeys } = message;
+    return {
+      version: transaction.version,
+      lookupTablesResolved: false,
+      instructions: message.compiledInstructions.map(
+        ({ programIdIndex, accountKeyIndexes, data }) => {
+          const programId = staticAccountKeys[programIdIndex].toBase58();
+          return {
+            programId,
+            program: this.decoders.get(programId)?.name,
+            type: undefined,
+            params: {},
+            accounts: accountKeyIndexes.map((index) => ({
+              address: staticAccountKeys[index]?.toBase58() ?? null,
+              isSigner: message.isAccountSigner(index),
+              isWritable: message.isAccountWritable(index),
+            })),
+            data: Buffer.from(data).toString("base64"),
+          };
+        }
+      ),
+    };
+  }
+}
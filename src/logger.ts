@@ -0,0 +1,174 @@
+export const LOG_LEVEL = {
+  DEBUG: "debug",
+  INFO: "info",
+  WARN: "warn",
+  ERROR: "error",
+  SILENT: "silent",
+} as const;
+
+export type LogLevel = (typeof LOG_LEVEL)[keyof typeof LOG_LEVEL];
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+export type LogRecord = {
+  level: Exclude<LogLevel, "silent">;
+  // e.g. "hyperlink:embed"
+  namespace: string;
+  message: string;
+  data: unknown[];
+  timestamp: number;
+};
+
+export type LogSink = (record: LogRecord) => void;
+
+export type ProtocolTraceEntry = {
+  direction: "sent" | "received";
+  timestamp: number;
+  type: string | undefined;
+  requestId: string | undefined;
+  windowName: string | undefined;
+  message: unknown;
+};
+
+export type LoggerOptions = {
+  // defaults to "warn"
+  level?: LogLevel;
+  // only log these namespaces and their children, e.g. ["hyperlink:window"]
+  namespaces?: string[];
+  // defaults to the console
+  sink?: LogSink;
+  // record every message exchanged with the iframe, off by default
+  trace?:
+    | boolean
+    | { maxEntries?: number; sink?: (entry: ProtocolTraceEntry) => void };
+};
+
+const DEFAULT_TRACE_MAX_ENTRIES = 500;
+
+const consoleSink: LogSink = ({ level, namespace, message, data }) => {
+  const method = level === "debug" ? "log" : level;
+  console[method](`[${namespace}] ${message}`, ...data);
+};
+
+// Keeps the most recent messages sent to and received from the iframe
+export class ProtocolTrace {
+  readonly enabled: boolean;
+  private readonly maxEntries: number;
+  private readonly sink: ((entry: ProtocolTraceEntry) => void) | undefined;
+  private entries: ProtocolTraceEntry[] = [];
+
+  constructor(options: LoggerOptions["trace"] = false) {
+    this.enabled = !!options;
+    const { maxEntries = DEFAULT_TRACE_MAX_ENTRIES, sink = undefined } =
+      typeof options === "object" ? options : {};
+    this.maxEntries = maxEntries;
+    this.sink = sink;
+  }
+
+  record(direction: ProtocolTraceEntry["direction"], message: unknown): void {
+    if (!this.enabled) return;
+    const fields =
+      typeof message === "object" && message !== null
+        ? (message as Record<string, unknown>)
+        : {};
+    const entry: ProtocolTraceEntry = {
+      direction,
+      timestamp: Date.now(),
+      type: typeof fields.type === "string" ? fields.type : undefined,
+      requestId:
+        typeof fields.requestId === "string" ? fields.requestId : undefined,
+      windowName:
+        typeof fields.windowName === "string" ? fields.windowName : undefined,
+      message,
+    };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    this.sink?.(entry);
+  }
+
+  getEntries(): ProtocolTraceEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
+
+export class Logger {
+  readonly namespace: string;
+  readonly trace: ProtocolTrace;
+  private readonly level: LogLevel;
+  private readonly namespaces: string[] | undefined;
+  private readonly sink: LogSink;
+
+  constructor(
+    options: LoggerOptions = {},
+    namespace = "hyperlink",
+    trace = new ProtocolTrace(options.trace)
+  ) {
+    this.namespace = namespace;
+    this.trace = trace;
+    this.level = options.level ?? LOG_LEVEL.WARN;
+    this.namespaces = options.namespaces;
+    this.sink = options.sink ?? consoleSink;
+  }
+
+  // Shares level, sink and trace with the parent
+  child(namespace: string): Logger {
+    return new Logger(
+      { level: this.level, namespaces: this.namespaces, sink: this.sink },
+      `${this.namespace}:${namespace}`,
+      this.trace
+    );
+  }
+
+  debug(message: string, ...data: unknown[]): void {
+    this.log("debug", message, data);
+  }
+
+  info(message: string, ...data: unknown[]): void {
+    this.log("info", message, data);
+  }
+
+  warn(message: string, ...data: unknown[]): void {
+    this.log("warn", message, data);
+  }
+
+  error(message: string, ...data: unknown[]): void {
+    this.log("error", message, data);
+  }
+
+  private isEnabled(level: LogRecord["level"]): boolean {
+    if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[this.level]) {
+      return false;
+    }
+    return (
+      !this.namespaces ||
+      this.namespaces.some(
+        (namespace) =>
+          this.namespace === namespace ||
+          this.namespace.startsWith(`${namespace}:`)
+      )
+    );
+  }
+
+  private log(level: LogRecord["level"], message: string, data: unknown[]) {
+    if (!this.isEnabled(level)) return;
+    this.sink({
+      level,
+      namespace: this.namespace,
+      message,
+      data,
+      timestamp: Date.now(),
+    });
+  }
+}
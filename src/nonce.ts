@@ -0,0 +1,135 @@
+import { isVersionedTransaction } from "@solana/wallet-adapter-base";
+import {
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  type Commitment,
+  type Connection,
+  type NonceAccount,
+  type TransactionInstruction,
+  type VersionedTransaction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+
+// SystemInstruction index of AdvanceNonceAccount
+const ADVANCE_NONCE_ACCOUNT = 4;
+
+export type DurableNonceTransactionOptions = {
+  nonceAccount: PublicKey;
+  // signs the AdvanceNonceAccount instruction
+  nonceAuthority: PublicKey;
+  feePayer: PublicKey;
+  instructions: TransactionInstruction[];
+  commitment?: Commitment;
+};
+
+function isAdvanceNonce(programId: PublicKey, data: Uint8Array): boolean {
+  return (
+    programId.equals(SystemProgram.programId) &&
+    data.length >= 4 &&
+    Buffer.from(data).readUInt32LE(0) === ADVANCE_NONCE_ACCOUNT
+  );
+}
+
+export function isAdvanceNonceInstruction(
+  instruction: TransactionInstruction | undefined
+): boolean {
+  return (
+    !!instruction && isAdvanceNonce(instruction.programId, instruction.data)
+  );
+}
+
+// The nonce account of a durable nonce transaction, i.e. one whose first
+// instruction is AdvanceNonceAccount; undefined for any other transaction
+export function getDurableNonceAccount(
+  transaction: Transaction | VersionedTransaction
+): PublicKey | undefined {
+  if (!isVersionedTransaction(transaction)) {
+    const instruction =
+      transaction.nonceInfo?.nonceInstruction ?? transaction.instructions[0];
+    return isAdvanceNonceInstruction(instruction)
+      ? instruction.keys[0]?.pubkey
+      : undefined;
+  }
+  const { staticAccountKeys, compiledInstructions } = transaction.message;
+  const instruction = compiledInstructions[0];
+  if (
+    !instruction ||
+    !isAdvanceNonce(
+      staticAccountKeys[instruction.programIdIndex],
+      instruction.data
+    )
+  ) {
+    return undefined;
+  }
+  // the runtime requires the nonce account to be a static key
+  return staticAccountKeys[instruction.accountKeyIndexes[0]];
+}
+
+export function isDurableNonceTransaction(
+  transaction: Transaction | VersionedTransaction
+): boolean {
+  return getDurableNonceAccount(transaction) !== undefined;
+}
+
+export async function getDurableNonce(
+  connection: Connection,
+  nonceAccount: PublicKey,
+  commitment?: Commitment
+): Promise<NonceAccount> {
+  const account = await connection.getNonce(nonceAccount, commitment);
+  if (!account) {
+    throw new Error(`${nonceAccount.toBase58()} is not a nonce account`);
+  }
+  return account;
+}
+
+// A legacy transaction that advances `nonceAccount` first and uses its current
+// nonce as the blockhash, so it can be signed now and sent any time before the
+// nonce is advanced again
+export async function buildDurableNonceTransaction(
+  connection: Connection,
+  {
+    nonceAccount,
+    nonceAuthority,
+    feePayer,
+    instructions,
+    commitment,
+  }: DurableNonceTransactionOptions
+): Promise<Transaction> {
+  const { nonce } = await getDurableNonce(connection, nonceAccount, commitment);
+  const transaction = new Transaction({ feePayer }).add(
+    SystemProgram.nonceAdvance({
+      noncePubkey: nonceAccount,
+      authorizedPubkey: nonceAuthority,
+    }),
+    ...instructions
+  );
+  transaction.recentBlockhash = nonce;
+  return transaction;
+}
+
+// Sets the nonce as the blockhash of a legacy durable nonce transaction that
+// has none yet, so `prepareTransaction` doesn't fill in a recent blockhash
+export async function setDurableNonceBlockhash(
+  connection: Connection,
+  transaction: Transaction,
+  commitment?: Commitment
+): Promise<void> {
+  if (transaction.recentBlockhash) {
+    return;
+  }
+  if (transaction.nonceInfo) {
+    transaction.recentBlockhash = transaction.nonceInfo.nonce;
+    return;
+  }
+  const nonceAccount = getDurableNonceAccount(transaction);
+  if (nonceAccount) {
+    const { nonce } = await getDurableNonce(
+      connection,
+      nonceAccount,
+      commitment
+    );
+    transaction.recentBlockhash = nonce;
+  }
+}
@@ -0,0 +1,150 @@
+import { VersionedMessage, VersionedTransaction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import type { RequestOptions } from "./window";
+
+// "\xffsolana offchain", can never start a valid transaction or message
+export const OFFCHAIN_MESSAGE_SIGNING_DOMAIN = new Uint8Array([
+  0xff,
+  ...Buffer.from("solana offchain", "ascii"),
+]);
+
+export const OFFCHAIN_MESSAGE_FORMAT = {
+  RESTRICTED_ASCII: 0,
+  LIMITED_UTF8: 1,
+  EXTENDED_UTF8: 2,
+} as const;
+
+export type OffchainMessageFormat =
+  (typeof OFFCHAIN_MESSAGE_FORMAT)[keyof typeof OFFCHAIN_MESSAGE_FORMAT];
+
+// How the wallet should show the bytes passed to `signMessage`
+export type MessageFormat = "utf8" | "binary" | "offchain";
+
+export type SignMessageOptions = RequestOptions & {
+  // detected from the bytes if unset
+  format?: MessageFormat;
+};
+
+export type OffchainMessage = {
+  version: 0;
+  format: OffchainMessageFormat;
+  message: Uint8Array;
+};
+
+// signing domain, version (u8), format (u8), message length (u16)
+const HEADER_LENGTH = OFFCHAIN_MESSAGE_SIGNING_DOMAIN.length + 4;
+// longest message hardware wallets can sign, a packet minus the header
+const MAX_LEDGER_MESSAGE_LENGTH = 1232 - HEADER_LENGTH;
+const MAX_MESSAGE_LENGTH = 0xffff - HEADER_LENGTH;
+
+function isPrintableAscii(bytes: Uint8Array): boolean {
+  return bytes.every((byte) => byte >= 0x20 && byte <= 0x7e);
+}
+
+function isUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function messageFormat(message: Uint8Array): OffchainMessageFormat {
+  if (message.length === 0) {
+    throw new Error("Off-chain message is empty");
+  }
+  if (!isUtf8(message)) {
+    throw new Error("Off-chain message must be UTF-8");
+  }
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    throw new Error(
+      `Off-chain message is longer than ${MAX_MESSAGE_LENGTH} bytes`
+    );
+  }
+  if (message.length > MAX_LEDGER_MESSAGE_LENGTH) {
+    return OFFCHAIN_MESSAGE_FORMAT.EXTENDED_UTF8;
+  }
+  return isPrintableAscii(message)
+    ? OFFCHAIN_MESSAGE_FORMAT.RESTRICTED_ASCII
+    : OFFCHAIN_MESSAGE_FORMAT.LIMITED_UTF8;
+}
+
+// Wraps `message` in a version 0 off-chain message, picking the most
+// restrictive format it fits
+export function encodeOffchainMessage(
+  message: string | Uint8Array
+): Uint8Array {
+  const body =
+    typeof message === "string" ? Buffer.from(message, "utf8") : message;
+  const format = messageFormat(body);
+  const encoded = Buffer.alloc(HEADER_LENGTH + body.length);
+  encoded.set(OFFCHAIN_MESSAGE_SIGNING_DOMAIN);
+  let offset = OFFCHAIN_MESSAGE_SIGNING_DOMAIN.length;
+  offset = encoded.writeUInt8(0, offset);
+  offset = encoded.writeUInt8(format, offset);
+  offset = encoded.writeUInt16LE(body.length, offset);
+  encoded.set(body, offset);
+  return new Uint8Array(encoded);
+}
+
+export function decodeOffchainMessage(bytes: Uint8Array): OffchainMessage {
+  const data = Buffer.from(bytes);
+  const domain = data.subarray(0, OFFCHAIN_MESSAGE_SIGNING_DOMAIN.length);
+  if (!domain.equals(OFFCHAIN_MESSAGE_SIGNING_DOMAIN)) {
+    throw new Error("Not an off-chain message");
+  }
+  if (data.length < HEADER_LENGTH) {
+    throw new Error("Off-chain message header is truncated");
+  }
+  let offset = OFFCHAIN_MESSAGE_SIGNING_DOMAIN.length;
+  const version = data.readUInt8(offset++);
+  if (version !== 0) {
+    throw new Error(`Unsupported off-chain message version ${version}`);
+  }
+  const format = data.readUInt8(offset++);
+  const length = data.readUInt16LE(offset);
+  offset += 2;
+  const message = data.subarray(offset);
+  if (message.length !== length) {
+    throw new Error(
+      `Off-chain message length is ${message.length}, header says ${length}`
+    );
+  }
+  if (format !== messageFormat(message)) {
+    throw new Error(`Off-chain message doesn't match its format ${format}`);
+  }
+  return { version, format, message: new Uint8Array(message) };
+}
+
+export function isOffchainMessage(bytes: Uint8Array): boolean {
+  try {
+    decodeOffchainMessage(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Whether `bytes` are a serialized transaction, or a transaction message whose
+// signature would authorize that transaction
+export function isTransactionBytes(bytes: Uint8Array): boolean {
+  const roundTrips = (serialize: () => Uint8Array) => {
+    try {
+      return Buffer.from(serialize()).equals(Buffer.from(bytes));
+    } catch {
+      return false;
+    }
+  };
+  return (
+    roundTrips(() => VersionedTransaction.deserialize(bytes).serialize()) ||
+    roundTrips(() => VersionedMessage.deserialize(bytes).serialize())
+  );
+}
+
+export function detectMessageFormat(bytes: Uint8Array): MessageFormat {
+  if (isOffchainMessage(bytes)) {
+    return "offchain";
+  }
+  return isUtf8(bytes) ? "utf8" : "binary";
+}
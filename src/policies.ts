@@ -0,0 +1,210 @@
+import { isVersionedTransaction } from "@solana/wallet-adapter-base";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  TransactionMessage,
+  type AddressLookupTableAccount,
+  type Connection,
+  type Transaction,
+  type TransactionInstruction,
+  type VersionedTransaction,
+} from "@solana/web3.js";
+import { HyperLinkPolicyError } from "./errors";
+import { TOKEN_PROGRAM_IDS } from "./simulation";
+
+// SPL Token (and Token-2022) instruction discriminators worth blocking
+export const TOKEN_INSTRUCTION = {
+  APPROVE: 4,
+  SET_AUTHORITY: 6,
+  CLOSE_ACCOUNT: 9,
+  APPROVE_CHECKED: 13,
+} as const;
+
+export type TokenInstruction =
+  (typeof TOKEN_INSTRUCTION)[keyof typeof TOKEN_INSTRUCTION];
+
+export type TransactionPolicyContext = {
+  transaction: Transaction | VersionedTransaction;
+  // with accounts from address lookup tables resolved
+  instructions: TransactionInstruction[];
+  // the connected account
+  publicKey: PublicKey;
+};
+
+export type TransactionPolicy = {
+  // reported in HyperLinkPolicyError
+  name: string;
+  // Return why the transaction is rejected, or nothing to let it through
+  check(
+    context: TransactionPolicyContext
+  ): string | undefined | Promise<string | undefined>;
+};
+
+// Instructions of a legacy or versioned transaction. Versioned transactions
+// that use address lookup tables need those tables passed in.
+export function transactionInstructions(
+  transaction: Transaction | VersionedTransaction,
+  addressLookupTableAccounts: AddressLookupTableAccount[] = []
+): TransactionInstruction[] {
+  if (!isVersionedTransaction(transaction)) {
+    return transaction.instructions;
+  }
+  return TransactionMessage.decompile(transaction.message, {
+    addressLookupTableAccounts,
+  }).instructions;
+}
+
+export async function loadAddressLookupTables(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction
+): Promise<AddressLookupTableAccount[]> {
+  if (!isVersionedTransaction(transaction)) {
+    return [];
+  }
+  return Promise.all(
+    transaction.message.addressTableLookups.map(async ({ accountKey }) => {
+      const { value } = await connection.getAddressLookupTable(accountKey);
+      if (!value) {
+        throw new Error(`Address lookup table ${accountKey} not found`);
+      }
+      return value;
+    })
+  );
+}
+
+// Throws a HyperLinkPolicyError for the first policy that rejects `transaction`
+export async function enforcePolicies(
+  policies: readonly TransactionPolicy[],
+  transaction: Transaction | VersionedTransaction,
+  publicKey: PublicKey,
+  connection?: Connection
+): Promise<void> {
+  if (policies.length === 0) {
+    return;
+  }
+  const needsLookupTables =
+    isVersionedTransaction(transaction) &&
+    transaction.message.addressTableLookups.length > 0;
+  if (needsLookupTables && !connection) {
+    // fail closed, the policies can't see every account
+    throw new HyperLinkPolicyError(
+      "address_lookup_tables",
+      "the transaction uses address lookup tables and there's no connection to load them"
+    );
+  }
+  const lookupTables =
+    needsLookupTables && connection
+      ? await loadAddressLookupTables(connection, transaction)
+      : [];
+  const context: TransactionPolicyContext = {
+    transaction,
+    instructions: transactionInstructions(transaction, lookupTables),
+    publicKey,
+  };
+  for (const policy of policies) {
+    const reason = await policy.check(context);
+    if (reason !== undefined) {
+      throw new HyperLinkPolicyError(policy.name, reason);
+    }
+  }
+}
+
+// Only lets through instructions for these programs. The compute budget
+// program is always allowed since the adapter may add its instructions.
+export function allowProgramsPolicy(
+  programIds: (PublicKey | string)[]
+): TransactionPolicy {
+  const allowed = new Set([
+    ...programIds.map((programId) => new PublicKey(programId).toBase58()),
+    ComputeBudgetProgram.programId.toBase58(),
+  ]);
+  return {
+    name: "allow_programs",
+    check: ({ instructions }) => {
+      const denied = instructions.find(
+        ({ programId }) => !allowed.has(programId.toBase58())
+      );
+      return denied
+        ? `program ${denied.programId.toBase58()} is not allowed`
+        : undefined;
+    },
+  };
+}
+
+// Caps the lamports the connected account sends with system program
+// transfers and account creations
+export function maxSolOutflowPolicy(
+  maxLamports: number | bigint
+): TransactionPolicy {
+  const limit = BigInt(maxLamports);
+  return {
+    name: "max_sol_outflow",
+    check: ({ instructions, publicKey }) => {
+      let outflow = 0n;
+      for (const instruction of instructions) {
+        if (!instruction.programId.equals(SystemProgram.programId)) continue;
+        let from: PublicKey | undefined;
+        let lamports = 0n;
+        try {
+          switch (SystemInstruction.decodeInstructionType(instruction)) {
+            case "Transfer":
+              ({ fromPubkey: from, lamports } =
+                SystemInstruction.decodeTransfer(instruction));
+              break;
+            case "TransferWithSeed":
+              ({ fromPubkey: from, lamports } =
+                SystemInstruction.decodeTransferWithSeed(instruction));
+              break;
+            case "Create": {
+              const create = SystemInstruction.decodeCreateAccount(instruction);
+              from = create.fromPubkey;
+              lamports = BigInt(create.lamports);
+              break;
+            }
+            case "CreateWithSeed": {
+              const create =
+                SystemInstruction.decodeCreateWithSeed(instruction);
+              from = create.fromPubkey;
+              lamports = BigInt(create.lamports);
+              break;
+            }
+          }
+        } catch {
+          return "unrecognized system program instruction";
+        }
+        if (from?.equals(publicKey)) {
+          outflow += lamports;
+        }
+      }
+      return outflow > limit
+        ? `sends ${outflow} lamports, more than the ${limit} allowed`
+        : undefined;
+    },
+  };
+}
+
+// Rejects SPL Token / Token-2022 instructions that hand control of the
+// user's tokens to someone else, by default delegations and authority changes
+export function denyTokenInstructionsPolicy(
+  denied: readonly TokenInstruction[] = [
+    TOKEN_INSTRUCTION.APPROVE,
+    TOKEN_INSTRUCTION.APPROVE_CHECKED,
+    TOKEN_INSTRUCTION.SET_AUTHORITY,
+  ]
+): TransactionPolicy {
+  return {
+    name: "deny_token_instructions",
+    check: ({ instructions }) => {
+      const found = instructions.find(
+        ({ programId, data }) =>
+          TOKEN_PROGRAM_IDS.includes(programId.toBase58()) &&
+          denied.includes(data[0] as TokenInstruction)
+      );
+      return found
+        ? `token instruction ${found.data[0]} is not allowed`
+        : undefined;
+    },
+  };
+}
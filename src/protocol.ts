@@ -0,0 +1,373 @@
+import { HyperLinkProtocolError } from "./errors";
+
+/*
+Single source of truth for every message exchanged between the dApp and the
+HyperLink iframe / login popup. Both `HyperLinkEmbed` and any host that plays
+the iframe side (e.g. a test host) should validate against these schemas so
+both sides agree on the shape of each message.
+*/
+
+// Bump when the message schemas below change in a way the iframe must know about
+export const PROTOCOL_VERSION = 2;
+
+// From this version on every message carries a nonce, timestamp and both
+// session ids, and messages without them are dropped
+export const ENVELOPE_PROTOCOL_VERSION = 2;
+
+export const HYPERLINK_CAPABILITY = {
+  BATCH_MESSAGE_SIGNING: "batch_message_signing",
+  WALLET_PAGES: "wallet_pages",
+  NOTIFICATIONS: "notifications",
+  REQUEST_CANCELLATION: "request_cancellation",
+  // ack carries a MessagePort, later traffic goes over it instead of window.postMessage
+  MESSAGE_PORT: "message_port",
+} as const;
+
+export type HyperLinkCapability =
+  (typeof HYPERLINK_CAPABILITY)[keyof typeof HYPERLINK_CAPABILITY];
+
+// Everything this adapter build knows how to use
+export const SUPPORTED_CAPABILITIES: readonly HyperLinkCapability[] =
+  Object.values(HYPERLINK_CAPABILITY);
+
+// What iframe builds that predate negotiation are known to support
+const LEGACY_CAPABILITIES: readonly HyperLinkCapability[] = [
+  HYPERLINK_CAPABILITY.WALLET_PAGES,
+  HYPERLINK_CAPABILITY.NOTIFICATIONS,
+];
+
+export type NegotiatedProtocol = {
+  version: number;
+  capabilities: ReadonlySet<HyperLinkCapability>;
+};
+
+// Intersects what the iframe announced in `ready` with what this build supports
+export function negotiateProtocol(remote: {
+  protocolVersion?: number;
+  capabilities?: string[];
+}): NegotiatedProtocol {
+  if (remote.protocolVersion === undefined) {
+    return {
+      version: 0,
+      capabilities: new Set(LEGACY_CAPABILITIES),
+    };
+  }
+  const remoteCapabilities = new Set(remote.capabilities ?? []);
+  return {
+    version: Math.min(remote.protocolVersion, PROTOCOL_VERSION),
+    capabilities: new Set(
+      SUPPORTED_CAPABILITIES.filter((capability) =>
+        remoteCapabilities.has(capability)
+      )
+    ),
+  };
+}
+
+type FieldKind =
+  | "string"
+  | "string?"
+  | "string[]"
+  | "string[]?"
+  | "boolean"
+  | "boolean?"
+  | "number"
+  | "number?"
+  | "unknown?";
+
+type FieldValue<K extends FieldKind> = K extends "string" | "string?"
+  ? string
+  : K extends "string[]" | "string[]?"
+    ? string[]
+    : K extends "boolean" | "boolean?"
+      ? boolean
+      : K extends "number" | "number?"
+        ? number
+        : unknown;
+
+type MessageSchema = Record<string, FieldKind>;
+
+type MessageFields<S extends MessageSchema> = {
+  -readonly [F in keyof S as S[F] extends `${string}?` ? never : F]: FieldValue<
+    S[F]
+  >;
+} & {
+  -readonly [
+    F in keyof S as S[F] extends `${string}?` ? F : never
+  ]?: FieldValue<S[F]>;
+};
+
+// Messages sent by the iframe or the login popup to the dApp
+export const INCOMING_MESSAGE_SCHEMA = {
+  ready: { protocolVersion: "number?", capabilities: "string[]?" },
+  ready_for_hyperlink_autoconnect: {},
+  loaded_public_key: { publicKey: "string" },
+  public_key: { publicKey: "string" },
+  cancel_connect: {},
+  focus_login: {},
+  window_ack: {},
+  done: {},
+  show_wallet: {},
+  hide_wallet: {},
+  show_wallet_notification: {},
+  hide_wallet_notification: {},
+  signed_transaction: { requestId: "string", signed_transaction: "string" },
+  signed_transactions: {
+    requestId: "string",
+    signed_transactions: "string[]",
+  },
+  transaction_closed: { requestId: "string" },
+  signed_message: {
+    requestId: "string",
+    signed_message: "string",
+    extraInfo: "unknown?",
+  },
+  signed_messages: { requestId: "string", signed_messages: "string[]" },
+  message_closed: { requestId: "string" },
+  sign_error: { requestId: "string", message: "string?" },
+  disconnected: {},
+} as const satisfies Record<string, MessageSchema>;
+
+// Messages sent by the dApp to the iframe or the login popup
+export const OUTGOING_MESSAGE_SCHEMA = {
+  ready: { dAppSessionId: "string", hyperLinkSessionId: "string" },
+  ack: {
+    title: "string",
+    dAppSessionId: "string?",
+    hyperLinkSessionId: "string?",
+    protocolVersion: "number?",
+    capabilities: "string[]?",
+  },
+  ack_loaded_public_key: {
+    title: "string",
+    dAppSessionId: "string",
+    hyperLinkSessionId: "string",
+  },
+  iframe_not_loading: {},
+  click_to_continue: { title: "string", showErrorMessage: "boolean?" },
+  embedded_login: {},
+  hyperlink_autoconnect_from_redirect: { title: "string" },
+  // `message` is kept for iframe builds that only look at that field
+  extend_session: { message: "string" },
+  sign_transaction: {
+    requestId: "string",
+    message: "string",
+    doSend: "boolean",
+    // TransactionPreview, when the dApp opted into simulation
+    preview: "unknown?",
+    // TransactionSummary of the decoded instructions
+    summary: "unknown?",
+  },
+  sign_all_transactions: {
+    requestId: "string",
+    messages: "string[]",
+    doSend: "boolean?",
+    // TransactionSummary[], in the order of `messages`
+    summaries: "unknown?",
+  },
+  sign_message: {
+    requestId: "string",
+    message: "string",
+    skipConfirm: "boolean?",
+    // MessageFormat: "utf8", "binary" or "offchain"
+    format: "string?",
+  },
+  siws: { requestId: "string", message: "string", skipConfirm: "boolean?" },
+  sign_all_messages: {
+    requestId: "string",
+    messages: "string[]",
+    // MessageFormat of each message
+    formats: "string[]?",
+  },
+  disconnect: {},
+  show_wallet: { page: "string?" },
+  hide_wallet: {},
+  cancel_request: { requestId: "string" },
+} as const satisfies Record<string, MessageSchema>;
+
+type IncomingSchema = typeof INCOMING_MESSAGE_SCHEMA;
+type OutgoingSchema = typeof OUTGOING_MESSAGE_SCHEMA;
+
+export type IncomingMessageType = keyof IncomingSchema;
+export type OutgoingMessageType = keyof OutgoingSchema;
+
+export type IncomingMessage = {
+  [T in IncomingMessageType]: {
+    type: T;
+    windowName: string;
+    requestId?: string;
+  } & MessageFields<IncomingSchema[T]>;
+}[IncomingMessageType];
+
+export type OutgoingMessage = {
+  [T in OutgoingMessageType]: {
+    type: T;
+    requestId?: string;
+  } & MessageFields<OutgoingSchema[T]>;
+}[OutgoingMessageType];
+
+export type IncomingMessageOf<T extends IncomingMessageType> = Extract<
+  IncomingMessage,
+  { type: T }
+>;
+export type OutgoingMessageOf<T extends OutgoingMessageType> = Extract<
+  OutgoingMessage,
+  { type: T }
+>;
+
+// Replies the iframe may send for each request the dApp makes. `resolve` is the
+// success reply, `reject` the replies that end the request without a result.
+// Uncorrelated requests accept replies that don't echo the `requestId`.
+export const REQUEST_REPLIES = {
+  sign_transaction: {
+    resolve: "signed_transaction",
+    reject: ["transaction_closed", "sign_error"],
+    correlated: true,
+  },
+  sign_all_transactions: {
+    resolve: "signed_transactions",
+    reject: ["transaction_closed", "sign_error"],
+    correlated: true,
+  },
+  sign_message: {
+    resolve: "signed_message",
+    reject: ["message_closed", "sign_error"],
+    correlated: true,
+  },
+  siws: {
+    resolve: "signed_message",
+    reject: ["message_closed", "sign_error"],
+    correlated: true,
+  },
+  sign_all_messages: {
+    resolve: "signed_messages",
+    reject: ["message_closed", "sign_error"],
+    correlated: true,
+  },
+  disconnect: {
+    resolve: "disconnected",
+    reject: [],
+    correlated: false,
+  },
+} as const satisfies Record<
+  string,
+  {
+    resolve: IncomingMessageType;
+    reject: readonly IncomingMessageType[];
+    correlated: boolean;
+  }
+>;
+
+export type RequestType = keyof typeof REQUEST_REPLIES;
+
+export type RequestPayload<T extends RequestType> = Omit<
+  OutgoingMessageOf<T>,
+  "type" | "requestId"
+>;
+
+export type ReplyType<T extends RequestType> =
+  | (typeof REQUEST_REPLIES)[T]["resolve"]
+  | (typeof REQUEST_REPLIES)[T]["reject"][number];
+
+export type ReplyOf<T extends RequestType> = IncomingMessageOf<ReplyType<T>>;
+
+function matchesFieldKind(kind: FieldKind, value: unknown): boolean {
+  if (kind.endsWith("?") && value === undefined) {
+    return true;
+  }
+  switch (kind) {
+    case "string":
+    case "string?":
+      return typeof value === "string";
+    case "string[]":
+    case "string[]?":
+      return (
+        Array.isArray(value) && value.every((item) => typeof item === "string")
+      );
+    case "boolean":
+    case "boolean?":
+      return typeof value === "boolean";
+    case "number":
+    case "number?":
+      return typeof value === "number" && !Number.isNaN(value);
+    case "unknown?":
+      return true;
+  }
+}
+
+function parseMessage(
+  data: unknown,
+  schemas: Record<string, MessageSchema>,
+  direction: "incoming" | "outgoing"
+): { type: string } {
+  if (typeof data !== "object" || data === null) {
+    throw new HyperLinkProtocolError(
+      `Invalid ${direction} message: expected an object`
+    );
+  }
+  const { type } = data as { type?: unknown };
+  if (typeof type !== "string") {
+    throw new HyperLinkProtocolError(
+      `Invalid ${direction} message: missing "type"`
+    );
+  }
+  if (!Object.prototype.hasOwnProperty.call(schemas, type)) {
+    throw new HyperLinkProtocolError(
+      `Unexpected ${direction} message type "${type}"`,
+      type
+    );
+  }
+  const schema = schemas[type];
+  for (const field of Object.keys(schema)) {
+    const value = (data as Record<string, unknown>)[field];
+    if (!matchesFieldKind(schema[field], value)) {
+      throw new HyperLinkProtocolError(
+        `Invalid "${type}" message: field "${field}" must be ${schema[
+          field
+        ].replace("?", " (optional)")}, received ${
+          Array.isArray(value) ? "array" : typeof value
+        }`,
+        type
+      );
+    }
+  }
+  return data as { type: string };
+}
+
+export function isIncomingMessageType(
+  type: unknown
+): type is IncomingMessageType {
+  return (
+    typeof type === "string" &&
+    Object.prototype.hasOwnProperty.call(INCOMING_MESSAGE_SCHEMA, type)
+  );
+}
+
+export function isOutgoingMessageType(
+  type: unknown
+): type is OutgoingMessageType {
+  return (
+    typeof type === "string" &&
+    Object.prototype.hasOwnProperty.call(OUTGOING_MESSAGE_SCHEMA, type)
+  );
+}
+
+// Throws a HyperLinkProtocolError if `data` is not a well-formed message from the iframe
+export function parseIncomingMessage(data: unknown): IncomingMessage {
+  const message = parseMessage(data, INCOMING_MESSAGE_SCHEMA, "incoming");
+  if (typeof (message as { windowName?: unknown }).windowName !== "string") {
+    throw new HyperLinkProtocolError(
+      `Invalid "${message.type}" message: missing "windowName"`,
+      message.type
+    );
+  }
+  return message as IncomingMessage;
+}
+
+// Throws a HyperLinkProtocolError if `data` is not a well-formed message from the dApp
+export function parseOutgoingMessage(data: unknown): OutgoingMessage {
+  return parseMessage(
+    data,
+    OUTGOING_MESSAGE_SCHEMA,
+    "outgoing"
+  ) as OutgoingMessage;
+}
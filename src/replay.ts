@@ -0,0 +1,94 @@
+import { v4 as uuid } from "uuid";
+
+// Envelopes older than this (or this far in the future, for clock skew) are dropped
+export const REPLAY_WINDOW_MS = 60_000;
+
+export type SessionIds = {
+  dAppSessionId?: string;
+  hyperLinkSessionId?: string;
+};
+
+// Added to every message `WindowCommunicator` posts. The iframe is expected to
+// stamp its own messages the same way.
+export type MessageEnvelope = SessionIds & {
+  nonce: string;
+  timestamp: number;
+};
+
+export function createEnvelope(session: SessionIds): MessageEnvelope {
+  return {
+    ...session,
+    nonce: uuid(),
+    timestamp: Date.now(),
+  };
+}
+
+export function hasEnvelope(data: unknown): boolean {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    ("nonce" in data || "timestamp" in data)
+  );
+}
+
+// Remembers the nonces seen within the replay window and rejects envelopes that
+// repeat one, are expired, or belong to another session. With
+// `requireSession`, envelopes must also carry both session ids.
+export class ReplayGuard {
+  private readonly maxAgeMs: number;
+  private readonly seen = new Map<string, number>();
+
+  constructor(maxAgeMs = REPLAY_WINDOW_MS) {
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  accept(
+    data: unknown,
+    session: SessionIds = {},
+    requireSession = false
+  ): boolean {
+    if (typeof data !== "object" || data === null) {
+      return false;
+    }
+    const { nonce, timestamp, dAppSessionId, hyperLinkSessionId } =
+      data as Partial<Record<keyof MessageEnvelope, unknown>>;
+    if (typeof nonce !== "string" || typeof timestamp !== "number") {
+      return false;
+    }
+    if (
+      requireSession &&
+      (typeof dAppSessionId !== "string" ||
+        typeof hyperLinkSessionId !== "string")
+    ) {
+      return false;
+    }
+    if (
+      (session.dAppSessionId !== undefined &&
+        dAppSessionId !== undefined &&
+        dAppSessionId !== session.dAppSessionId) ||
+      (session.hyperLinkSessionId !== undefined &&
+        hyperLinkSessionId !== undefined &&
+        hyperLinkSessionId !== session.hyperLinkSessionId)
+    ) {
+      return false;
+    }
+    const now = Date.now();
+    this.prune(now);
+    if (Math.abs(now - timestamp) > this.maxAgeMs) {
+      return false;
+    }
+    if (this.seen.has(nonce)) {
+      return false;
+    }
+    this.seen.set(nonce, timestamp);
+    return true;
+  }
+
+  private prune(now: number) {
+    for (const [nonce, timestamp] of this.seen) {
+      if (now - timestamp > this.maxAgeMs) {
+        this.seen.delete(nonce);
+      }
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { EventEmitter } from "@solana/wallet-adapter-base";
+import {
+  HyperLinkRequestAbortedError,
+  HyperLinkWalletBusyError,
+} from "./errors";
+
+export type QueuedRequest = {
+  id: number;
+  type: string;
+  priority: number;
+  enqueuedAt: number;
+};
+
+export type RequestQueueState = {
+  // requests waiting behind the current one
+  length: number;
+  current: QueuedRequest | undefined;
+};
+
+export interface RequestQueueEvents {
+  change(state: RequestQueueState): unknown;
+}
+
+export type EnqueueOptions = {
+  // higher runs first, FIFO among equal priorities
+  priority?: number;
+  // "reject" fails with HyperLinkWalletBusyError instead of waiting
+  ifBusy?: "queue" | "reject";
+  // removes the request from the queue while it waits
+  signal?: AbortSignal;
+};
+
+type Entry = QueuedRequest & {
+  run: () => void;
+  cancel: () => void;
+};
+
+// Runs wallet requests one at a time so only one prompt is shown in the iframe
+export class RequestQueue extends EventEmitter<RequestQueueEvents> {
+  private readonly pending: Entry[] = [];
+  private active: QueuedRequest | undefined;
+  private nextId = 0;
+
+  get state(): RequestQueueState {
+    return { length: this.pending.length, current: this.active };
+  }
+
+  enqueue<R>(
+    type: string,
+    task: () => Promise<R>,
+    { priority = 0, ifBusy = "queue", signal }: EnqueueOptions = {}
+  ): Promise<R> {
+    if (signal?.aborted) {
+      return Promise.reject(new HyperLinkRequestAbortedError(type));
+    }
+    if (ifBusy === "reject" && this.active) {
+      return Promise.reject(
+        new HyperLinkWalletBusyError(type, this.active.type)
+      );
+    }
+    return new Promise<R>((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(entry);
+        reject(new HyperLinkRequestAbortedError(type));
+      };
+      const entry: Entry = {
+        id: this.nextId++,
+        type,
+        priority,
+        enqueuedAt: Date.now(),
+        run: () => {
+          signal?.removeEventListener("abort", onAbort);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active = undefined;
+              this.next();
+            });
+        },
+        cancel: () => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(new HyperLinkRequestAbortedError(type));
+        },
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      // keep `pending` sorted by priority, FIFO within a priority
+      const index = this.pending.findIndex(
+        (queued) => queued.priority < priority
+      );
+      this.pending.splice(index === -1 ? this.pending.length : index, 0, entry);
+      if (this.active) {
+        this.emitChange();
+      } else {
+        this.next();
+      }
+    });
+  }
+
+  // Rejects everything still waiting, e.g. on disconnect. The current request
+  // is left to finish or time out on its own.
+  clear(): void {
+    const cancelled = this.pending.splice(0, this.pending.length);
+    cancelled.forEach((entry) => entry.cancel());
+    if (cancelled.length > 0) {
+      this.emitChange();
+    }
+  }
+
+  private next() {
+    const entry = this.pending.shift();
+    if (entry) {
+      const { run, cancel, ...request } = entry;
+      this.active = request;
+      this.emitChange();
+      run();
+    } else {
+      this.emitChange();
+    }
+  }
+
+  private remove(entry: Entry) {
+    const index = this.pending.indexOf(entry);
+    if (index !== -1) {
+      this.pending.splice(index, 1);
+      this.emitChange();
+    }
+  }
+
+  private emitChange() {
+    this.emit("change", this.state);
+  }
+}
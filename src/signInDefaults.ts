@@ -0,0 +1,52 @@
+import type { SolanaSignInInput } from "@solana/wallet-standard-features";
+import bs58 from "bs58";
+
+const DEFAULT_EXPIRATION_MS = 10 * 60_000;
+const NONCE_BYTES = 16;
+
+// Fields filled in for every sign-in whose input leaves them unset
+export type SignInDefaults = {
+  // a nonce issued by your backend; a random one is generated if unset
+  nonce?: () => string | Promise<string>;
+  // how long the message stays valid after `issuedAt`, 10 minutes if unset;
+  // null leaves `expirationTime` unset
+  expirationMs?: number | null;
+  // defaults to the page's origin
+  uri?: string;
+  // defaults to "1"
+  version?: string;
+};
+
+// 16 random bytes in base58, alphanumeric as the SIWS nonce must be
+export function generateSignInNonce(): string {
+  return bs58.encode(crypto.getRandomValues(new Uint8Array(NONCE_BYTES)));
+}
+
+// The input that will actually be signed: `input` with the missing nonce,
+// `issuedAt`, `expirationTime`, `uri` and `version` filled in
+export async function applySignInDefaults(
+  input: SolanaSignInInput = {},
+  {
+    nonce = generateSignInNonce,
+    expirationMs = DEFAULT_EXPIRATION_MS,
+    uri,
+    version = "1",
+  }: SignInDefaults = {},
+  now = new Date()
+): Promise<SolanaSignInInput> {
+  const issuedAt = input.issuedAt ?? now.toISOString();
+  const issuedTime = Date.parse(issuedAt);
+  const expirationTime =
+    input.expirationTime ??
+    (expirationMs === null || Number.isNaN(issuedTime)
+      ? undefined
+      : new Date(issuedTime + expirationMs).toISOString());
+  return {
+    ...input,
+    nonce: input.nonce ?? (await nonce()),
+    issuedAt,
+    ...(expirationTime !== undefined && { expirationTime }),
+    uri: input.uri ?? uri ?? window.location.origin,
+    version: input.version ?? version,
+  };
+}
@@ -0,0 +1,131 @@
+import { isVersionedTransaction } from "@solana/wallet-adapter-base";
+import { verifyMessageSignature } from "@solana/wallet-standard-util";
+import type {
+  PublicKey,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { HyperLinkInvalidSignatureError } from "./errors";
+
+export type SignerStatus = {
+  publicKey: PublicKey;
+  // false while the signature is still missing
+  signed: boolean;
+  // the signature is present and valid for the transaction's message
+  valid: boolean;
+};
+
+type SignatureSlot = { publicKey: PublicKey; signature: Uint8Array | null };
+
+function signatureSlots(transaction: Transaction | VersionedTransaction): {
+  message: Uint8Array;
+  slots: SignatureSlot[];
+} {
+  if (!isVersionedTransaction(transaction)) {
+    // compiling also lines up `signatures` with the required signers
+    const message = transaction.serializeMessage();
+    return {
+      message,
+      slots: transaction.signatures.map(({ publicKey, signature }) => ({
+        publicKey,
+        signature,
+      })),
+    };
+  }
+  const { message, signatures } = transaction;
+  return {
+    message: message.serialize(),
+    slots: message.staticAccountKeys
+      .slice(0, message.header.numRequiredSignatures)
+      .map((publicKey, index) => {
+        const signature = signatures[index];
+        // unsigned slots are zero-filled
+        return {
+          publicKey,
+          signature:
+            signature && signature.some((byte) => byte !== 0)
+              ? signature
+              : null,
+        };
+      }),
+  };
+}
+
+// Every required signer of `transaction`, in order, and whether it has signed
+export function getSignerStatuses(
+  transaction: Transaction | VersionedTransaction
+): SignerStatus[] {
+  const { message, slots } = signatureSlots(transaction);
+  return slots.map(({ publicKey, signature }) => ({
+    publicKey,
+    signed: signature !== null,
+    valid:
+      signature !== null &&
+      verifyMessageSignature({
+        message,
+        signedMessage: message,
+        signature,
+        publicKey: publicKey.toBytes(),
+      }),
+  }));
+}
+
+// Required signers that haven't signed yet, e.g. a backend co-signing after
+// the user
+export function getMissingSigners(
+  transaction: Transaction | VersionedTransaction
+): PublicKey[] {
+  return getSignerStatuses(transaction)
+    .filter(({ signed }) => !signed)
+    .map(({ publicKey }) => publicKey);
+}
+
+export function isSignedBy(
+  transaction: Transaction | VersionedTransaction,
+  publicKey: PublicKey
+): boolean {
+  return getSignerStatuses(transaction).some(
+    (status) => status.valid && status.publicKey.equals(publicKey)
+  );
+}
+
+// Wire format that keeps missing signatures empty, to hand a partially signed
+// transaction to the next signer
+export function serializePartiallySigned(
+  transaction: Transaction | VersionedTransaction
+): Uint8Array {
+  return isVersionedTransaction(transaction)
+    ? transaction.serialize()
+    : new Uint8Array(transaction.serialize({ requireAllSignatures: false }));
+}
+
+// Checks a transaction returned by the wallet: `publicKey` must have signed it
+// and signatures already on `original`, e.g. from a co-signer, must be kept
+export function verifyWalletSignature(
+  original: Transaction | VersionedTransaction,
+  signed: Transaction | VersionedTransaction,
+  publicKey: PublicKey
+): void {
+  const statuses = getSignerStatuses(signed);
+  const own = statuses.find((status) => status.publicKey.equals(publicKey));
+  if (!own?.signed) {
+    throw new HyperLinkInvalidSignatureError(
+      `Transaction is missing the signature of ${publicKey.toBase58()}`
+    );
+  }
+  if (!own.valid) {
+    throw new HyperLinkInvalidSignatureError(
+      `Transaction signature of ${publicKey.toBase58()} is invalid`
+    );
+  }
+  const before = signatureSlots(original).slots;
+  for (const { publicKey: signer, signature } of before) {
+    if (!signature || signer.equals(publicKey)) continue;
+    const after = statuses.find((status) => status.publicKey.equals(signer));
+    if (!after?.valid) {
+      throw new HyperLinkInvalidSignatureError(
+        `Transaction lost the signature of ${signer.toBase58()}`
+      );
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { isVersionedTransaction } from "@solana/wallet-adapter-base";
+import {
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+  type AccountInfo,
+  type Commitment,
+  type Connection,
+  type SimulatedTransactionAccountInfo,
+  type Transaction,
+  type TransactionError,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { loadAddressLookupTables } from "./policies";
+
+export const TOKEN_PROGRAM_IDS = [
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+];
+// mint (32) | owner (32) | amount (u64) | ...; Token-2022 extensions come after
+const TOKEN_ACCOUNT_LENGTH = 165;
+const MINT_DECIMALS_OFFSET = 44;
+
+export type TokenBalanceChange = {
+  mint: string;
+  // the user's token account
+  account: string;
+  // in base units, negative when tokens leave the account, e.g. "-1500000"
+  change: string;
+  // undefined if the mint couldn't be loaded
+  decimals: number | undefined;
+};
+
+export type TransactionPreview = {
+  // why the simulation failed, null if it succeeded
+  error: TransactionError | string | null;
+  logs: string[];
+  unitsConsumed: number | undefined;
+  // lamports, negative when the user pays, e.g. "-5000"
+  solChange: string;
+  tokenChanges: TokenBalanceChange[];
+  // true if the address lookup tables couldn't be loaded, so changes to
+  // accounts loaded from them are missing
+  partial: boolean;
+};
+
+export type SimulationOptions = {
+  // used by `signTransaction`, which isn't given a connection;
+  // `sendTransaction` simulates on the connection it's passed
+  connection?: Connection;
+  commitment?: Commitment;
+  // reject with HyperLinkSimulationError instead of prompting, defaults to true
+  rejectOnFailure?: boolean;
+  // called before the wallet is prompted; throw to cancel the request
+  onPreview?: (
+    preview: TransactionPreview,
+    transaction: Transaction | VersionedTransaction
+  ) => void | Promise<void>;
+};
+
+type TokenAccount = { mint: string; owner: string; amount: bigint };
+
+function parseTokenAccount(
+  programId: string,
+  data: Buffer
+): TokenAccount | undefined {
+  if (
+    !TOKEN_PROGRAM_IDS.includes(programId) ||
+    data.length < TOKEN_ACCOUNT_LENGTH
+  ) {
+    return undefined;
+  }
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64),
+  };
+}
+
+function accountBefore(info: AccountInfo<Buffer> | null) {
+  return info
+    ? {
+        lamports: BigInt(info.lamports),
+        token: parseTokenAccount(info.owner.toBase58(), info.data),
+      }
+    : undefined;
+}
+
+function accountAfter(info: SimulatedTransactionAccountInfo | null) {
+  return info
+    ? {
+        lamports: BigInt(info.lamports),
+        token: parseTokenAccount(
+          info.owner,
+          Buffer.from(info.data[0] ?? "", "base64")
+        ),
+      }
+    : undefined;
+}
+
+// Legacy transactions may not have a fee payer or blockhash yet when signing
+function toVersionedTransaction(
+  transaction: Transaction | VersionedTransaction,
+  feePayer: PublicKey
+): VersionedTransaction {
+  if (isVersionedTransaction(transaction)) {
+    return transaction;
+  }
+  const message = new TransactionMessage({
+    payerKey: transaction.feePayer ?? feePayer,
+    // replaced by the RPC node, see `replaceRecentBlockhash` below
+    recentBlockhash:
+      transaction.recentBlockhash ?? PublicKey.default.toBase58(),
+    instructions: transaction.instructions,
+  }).compileToLegacyMessage();
+  return new VersionedTransaction(message);
+}
+
+async function getMintDecimals(
+  connection: Connection,
+  mints: string[],
+  commitment?: Commitment
+): Promise<Map<string, number>> {
+  const decimals = new Map<string, number>();
+  if (mints.length === 0) {
+    return decimals;
+  }
+  const infos = await connection.getMultipleAccountsInfo(
+    mints.map((mint) => new PublicKey(mint)),
+    commitment
+  );
+  infos.forEach((info, index) => {
+    if (
+      info &&
+      TOKEN_PROGRAM_IDS.includes(info.owner.toBase58()) &&
+      info.data.length > MINT_DECIMALS_OFFSET
+    ) {
+      decimals.set(mints[index], info.data[MINT_DECIMALS_OFFSET]);
+    }
+  });
+  return decimals;
+}
+
+// Writable accounts of the transaction, including ones loaded from address
+// lookup tables unless the tables can't be loaded
+async function writableAccounts(
+  connection: Connection,
+  transaction: VersionedTransaction
+): Promise<{ addresses: string[]; partial: boolean }> {
+  const { message } = transaction;
+  let keys = message.staticAccountKeys;
+  let partial = false;
+  if (message.addressTableLookups.length > 0) {
+    try {
+      const addressLookupTableAccounts = await loadAddressLookupTables(
+        connection,
+        transaction
+      );
+      keys = message
+        .getAccountKeys({ addressLookupTableAccounts })
+        .keySegments()
+        .flat();
+    } catch {
+      partial = true;
+    }
+  }
+  return {
+    addresses: keys
+      .filter((_, index) => message.isAccountWritable(index))
+      .map((key) => key.toBase58()),
+    partial,
+  };
+}
+
+// Simulates `transaction` and works out how the SOL and SPL token balances of
+// `owner` would change
+export async function simulateTransactionPreview(
+  connection: Connection,
+  transaction: Transaction | VersionedTransaction,
+  owner: PublicKey,
+  commitment?: Commitment
+): Promise<TransactionPreview> {
+  const versioned = toVersionedTransaction(transaction, owner);
+  const { addresses, partial } = await writableAccounts(connection, versioned);
+
+  const { context, value: before } =
+    await connection.getMultipleAccountsInfoAndContext(
+      addresses.map((address) => new PublicKey(address)),
+      commitment
+    );
+  const { value: result } = await connection.simulateTransaction(versioned, {
+    // the transaction isn't signed yet
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment,
+    minContextSlot: context.slot,
+    accounts: { encoding: "base64", addresses },
+  });
+
+  const preview: TransactionPreview = {
+    error: result.err,
+    logs: result.logs ?? [],
+    unitsConsumed: result.unitsConsumed,
+    solChange: "0",
+    tokenChanges: [],
+    partial,
+  };
+  // no post-simulation state to compare against
+  if (result.err || !result.accounts) {
+    return preview;
+  }
+
+  const ownerAddress = owner.toBase58();
+  const changes: Omit<TokenBalanceChange, "decimals">[] = [];
+  addresses.forEach((address, index) => {
+    const pre = accountBefore(before[index]);
+    const post = accountAfter(result.accounts?.[index] ?? null);
+    if (address === ownerAddress) {
+      preview.solChange = (
+        (post?.lamports ?? 0n) - (pre?.lamports ?? 0n)
+      ).toString();
+    }
+    const token = pre?.token ?? post?.token;
+    if (
+      !token ||
+      (pre?.token?.owner !== ownerAddress &&
+        post?.token?.owner !== ownerAddress)
+    ) {
+      return;
+    }
+    const change = (post?.token?.amount ?? 0n) - (pre?.token?.amount ?? 0n);
+    if (change !== 0n) {
+      changes.push({
+        mint: token.mint,
+        account: address,
+        change: change.toString(),
+      });
+    }
+  });
+
+  const decimals = await getMintDecimals(
+    connection,
+    [...new Set(changes.map(({ mint }) => mint))],
+    commitment
+  );
+  preview.tokenChanges = changes.map((change) => ({
+    ...change,
+    decimals: decimals.get(change.mint),
+  }));
+  return preview;
+}
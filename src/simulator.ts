@@ -0,0 +1,273 @@
+import { Keypair, VersionedTransaction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { HYPERLINK_BUILD_ENV } from "./interfaces";
+import {
+  HYPERLINK_CAPABILITY,
+  parseOutgoingMessage,
+  PROTOCOL_VERSION,
+  type HyperLinkCapability,
+  type IncomingMessageOf,
+  type IncomingMessageType,
+  type OutgoingMessage,
+} from "./protocol";
+import { createEnvelope, ReplayGuard, type SessionIds } from "./replay";
+import type { HyperLinkTransport, TransportMessageEvent } from "./transport";
+import { getHyperLinkUrl } from "./utils";
+
+/*
+Plays the HyperLink iframe in-process so `HyperLinkWalletAdapter` and
+`HyperLinkEmbed` can be driven end to end (e.g. under jsdom) without loading
+the real wallet. Pass an instance as the `transport` option:
+
+  const host = new HyperLinkHostSimulator();
+  const adapter = new HyperLinkWalletAdapter({ ...config, transport: host });
+  await adapter.connect();
+  host.signing = "reject";
+
+Login completes as soon as the iframe is asked to show a login screen.
+Transactions and messages are signed with `host.keypair`; message signing uses
+Ed25519 from Web Crypto. Popups are not simulated.
+*/
+
+// How the simulated user answers signing requests
+export type SimulatedSigningBehavior = "approve" | "reject" | "error";
+
+// How the simulated user answers the login screen
+export type SimulatedLoginBehavior = "approve" | "cancel";
+
+export type HyperLinkHostSimulatorOptions = {
+  keypair?: Keypair;
+  signing?: SimulatedSigningBehavior;
+  login?: SimulatedLoginBehavior;
+  // announced in `ready`, everything but the MessagePort transport by default
+  capabilities?: HyperLinkCapability[];
+  allowListed?: boolean;
+  // dispatch `load` on the iframe ourselves if the environment hasn't by then
+  loadTimeoutMs?: number;
+};
+
+type Envelope = {
+  [T in IncomingMessageType]: Omit<IncomingMessageOf<T>, "windowName">;
+}[IncomingMessageType];
+
+// PKCS #8 header of an Ed25519 private key, followed by the 32-byte seed
+const ED25519_PKCS8_PREFIX = Buffer.from(
+  "302e020100300506032b657004220420",
+  "hex"
+);
+
+export class HyperLinkHostSimulator implements HyperLinkTransport {
+  readonly origin: string = getHyperLinkUrl(HYPERLINK_BUILD_ENV.PRODUCTION);
+  readonly keypair: Keypair;
+  signing: SimulatedSigningBehavior;
+  login: SimulatedLoginBehavior;
+  // every message the dApp posted to the iframe, oldest first
+  readonly received: OutgoingMessage[] = [];
+
+  private readonly capabilities: HyperLinkCapability[];
+  private readonly allowListed: boolean;
+  private readonly loadTimeoutMs: number;
+  private readonly listeners = new Set<
+    (event: TransportMessageEvent) => void
+  >();
+  private windowName = "";
+  private session: SessionIds = {};
+  private readonly replayGuard = new ReplayGuard();
+  private signingKey: Promise<CryptoKey> | undefined;
+
+  constructor({
+    keypair = Keypair.generate(),
+    signing = "approve",
+    login = "approve",
+    capabilities = Object.values(HYPERLINK_CAPABILITY).filter(
+      (capability) => capability !== HYPERLINK_CAPABILITY.MESSAGE_PORT
+    ),
+    allowListed = true,
+    loadTimeoutMs = 50,
+  }: HyperLinkHostSimulatorOptions = {}) {
+    this.keypair = keypair;
+    this.signing = signing;
+    this.login = login;
+    this.capabilities = capabilities;
+    this.allowListed = allowListed;
+    this.loadTimeoutMs = loadTimeoutMs;
+  }
+
+  get publicKey(): string {
+    return this.keypair.publicKey.toBase58();
+  }
+
+  post(target: Window, data: unknown): void {
+    // postMessage is asynchronous, keep it that way
+    setTimeout(() => this.receive(data), 0);
+  }
+
+  listen(listener: (event: TransportMessageEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  attachIframe(iframe: HTMLIFrameElement): void {
+    this.windowName = iframe.name;
+    let loaded = false;
+    const onLoad = () => {
+      if (loaded) return;
+      loaded = true;
+      this.emit({
+        type: "ready",
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: this.capabilities,
+      });
+    };
+    iframe.addEventListener("load", onLoad, { once: true });
+    // jsdom and friends never load the real wallet page
+    setTimeout(() => {
+      if (!loaded) {
+        iframe.dispatchEvent(new Event("load"));
+      }
+    }, this.loadTimeoutMs);
+  }
+
+  checkAllowList(): Promise<boolean> {
+    return Promise.resolve(this.allowListed);
+  }
+
+  // Sends a message to the dApp as the iframe would
+  emit(message: Envelope): void {
+    const event = {
+      origin: this.origin,
+      data: {
+        ...message,
+        ...createEnvelope(this.session),
+        windowName: this.windowName,
+      },
+    };
+    setTimeout(() => {
+      for (const listener of [...this.listeners]) {
+        listener(event);
+      }
+    }, 0);
+  }
+
+  private receive(data: unknown) {
+    const message = parseOutgoingMessage(data);
+    // the real iframe drops these too
+    if (!this.replayGuard.accept(data, this.session)) {
+      return;
+    }
+    this.received.push(message);
+    switch (message.type) {
+      case "ack":
+        this.session = {
+          dAppSessionId: message.dAppSessionId,
+          hyperLinkSessionId: message.hyperLinkSessionId,
+        };
+        break;
+      case "click_to_continue":
+      case "embedded_login":
+      case "hyperlink_autoconnect_from_redirect":
+        this.emit(
+          this.login === "approve"
+            ? { type: "public_key", publicKey: this.publicKey }
+            : { type: "cancel_connect" }
+        );
+        break;
+      case "sign_transaction":
+        this.answer(message.requestId, "transaction_closed", () => ({
+          type: "signed_transaction",
+          requestId: message.requestId,
+          signed_transaction: this.signTransaction(message.message),
+        }));
+        break;
+      case "sign_all_transactions":
+        this.answer(message.requestId, "transaction_closed", () => ({
+          type: "signed_transactions",
+          requestId: message.requestId,
+          signed_transactions: message.messages.map((transaction) =>
+            this.signTransaction(transaction)
+          ),
+        }));
+        break;
+      case "sign_message":
+      case "siws":
+        this.answer(message.requestId, "message_closed", async () => ({
+          type: "signed_message",
+          requestId: message.requestId,
+          signed_message: await this.signMessage(message.message),
+        }));
+        break;
+      case "sign_all_messages":
+        this.answer(message.requestId, "message_closed", async () => ({
+          type: "signed_messages",
+          requestId: message.requestId,
+          signed_messages: await Promise.all(
+            message.messages.map((signed) => this.signMessage(signed))
+          ),
+        }));
+        break;
+      case "disconnect":
+        this.emit({ type: "disconnected" });
+        break;
+    }
+  }
+
+  private async answer(
+    requestId: string,
+    closed: "transaction_closed" | "message_closed",
+    approve: () => Envelope | Promise<Envelope>
+  ) {
+    switch (this.signing) {
+      case "approve":
+        try {
+          this.emit(await approve());
+        } catch (error: any) {
+          this.emit({
+            type: "sign_error",
+            requestId,
+            message: error?.message,
+          });
+        }
+        break;
+      case "reject":
+        this.emit({ type: closed, requestId });
+        break;
+      case "error":
+        this.emit({
+          type: "sign_error",
+          requestId,
+          message: "Simulated signing error",
+        });
+        break;
+    }
+  }
+
+  // Legacy and versioned transactions share the wire format this needs
+  private signTransaction(base64: string): string {
+    const transaction = VersionedTransaction.deserialize(
+      Buffer.from(base64, "base64")
+    );
+    transaction.sign([this.keypair]);
+    return Buffer.from(transaction.serialize()).toString("base64");
+  }
+
+  private async signMessage(base64: string): Promise<string> {
+    this.signingKey ??= crypto.subtle.importKey(
+      "pkcs8",
+      Buffer.concat([
+        ED25519_PKCS8_PREFIX,
+        this.keypair.secretKey.subarray(0, 32),
+      ]),
+      { name: "Ed25519" },
+      false,
+      ["sign"]
+    );
+    const signature = await crypto.subtle.sign(
+      "Ed25519",
+      await this.signingKey,
+      Buffer.from(base64, "base64")
+    );
+    return Buffer.from(signature).toString("base64");
+  }
+}
@@ -0,0 +1,238 @@
+// Sign-In With Solana verification for servers. Kept free of DOM and relative
+// imports so it can be loaded on its own in Node through
+// "hyperlink-wallet-adapter/siws".
+import type {
+  SolanaSignInInput,
+  SolanaSignInOutput,
+} from "@solana/wallet-standard-features";
+import {
+  parseSignInMessage,
+  verifyMessageSignature,
+} from "@solana/wallet-standard-util";
+import bs58 from "bs58";
+import equal from "fast-deep-equal";
+
+const DEFAULT_CLOCK_SKEW_MS = 60_000;
+
+// What HyperLink's `signIn` returns: the standard output plus whatever the
+// wallet attached to its reply
+export type HyperLinkSignInOutput = SolanaSignInOutput & {
+  extraInfo?: unknown;
+  // the input that was signed, after defaults were filled in; pass it to
+  // `verifySignInOutput` unless your backend issued the input itself
+  input?: SolanaSignInInput;
+};
+
+export type SignInCheck =
+  | "signature"
+  | "message"
+  | "address"
+  | "domain"
+  | "statement"
+  | "uri"
+  | "version"
+  | "chainId"
+  | "nonce"
+  | "requestId"
+  | "resources"
+  | "issuedAt"
+  | "expirationTime"
+  | "notBefore"
+  | "extraInfo";
+
+export type SignInFailure = { check: SignInCheck; reason: string };
+
+export type SignInVerification = {
+  valid: boolean;
+  // empty when valid
+  failures: SignInFailure[];
+  // the fields parsed from the signed message, null if it couldn't be parsed
+  fields: SolanaSignInInput | null;
+};
+
+export type SignInVerificationOptions = {
+  // defaults to the current time
+  now?: Date;
+  // tolerance for the time checks, defaults to 1 minute
+  clockSkewMs?: number;
+  // reject messages issued longer ago than this, even if they haven't expired
+  maxAgeMs?: number;
+  // fields `extraInfo` must contain with these values, or a check of your own
+  extraInfo?: Record<string, unknown> | ((extraInfo: unknown) => boolean);
+};
+
+const EXACT_FIELDS = [
+  "domain",
+  "statement",
+  "uri",
+  "version",
+  "chainId",
+  "nonce",
+  "requestId",
+  "issuedAt",
+  "expirationTime",
+  "notBefore",
+] as const;
+
+function parseTime(value: string): number | undefined {
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function checkTimes(
+  fields: SolanaSignInInput,
+  {
+    now = new Date(),
+    clockSkewMs = DEFAULT_CLOCK_SKEW_MS,
+    maxAgeMs,
+  }: SignInVerificationOptions
+): SignInFailure[] {
+  const failures: SignInFailure[] = [];
+  const time = now.getTime();
+  const check = (
+    name: "issuedAt" | "expirationTime" | "notBefore",
+    test: (value: number) => string | undefined
+  ) => {
+    const value = fields[name];
+    if (value === undefined) return;
+    const parsed = parseTime(value);
+    const reason =
+      parsed === undefined ? `"${value}" is not a valid time` : test(parsed);
+    if (reason) failures.push({ check: name, reason });
+  };
+  check("issuedAt", (issuedAt) => {
+    if (issuedAt > time + clockSkewMs) return "issued in the future";
+    if (maxAgeMs !== undefined && time - issuedAt > maxAgeMs + clockSkewMs) {
+      return `issued more than ${maxAgeMs}ms ago`;
+    }
+    return undefined;
+  });
+  check("expirationTime", (expirationTime) =>
+    expirationTime < time - clockSkewMs ? "expired" : undefined
+  );
+  check("notBefore", (notBefore) =>
+    notBefore > time + clockSkewMs ? "not valid yet" : undefined
+  );
+  if (maxAgeMs !== undefined && fields.issuedAt === undefined) {
+    failures.push({
+      check: "issuedAt",
+      reason: "missing, needed for maxAgeMs",
+    });
+  }
+  return failures;
+}
+
+function checkExtraInfo(
+  extraInfo: unknown,
+  expected: SignInVerificationOptions["extraInfo"]
+): SignInFailure[] {
+  if (
+    extraInfo !== undefined &&
+    extraInfo !== null &&
+    (typeof extraInfo !== "object" || Array.isArray(extraInfo))
+  ) {
+    return [{ check: "extraInfo", reason: "not an object" }];
+  }
+  if (typeof expected === "function") {
+    return expected(extraInfo)
+      ? []
+      : [{ check: "extraInfo", reason: "rejected by the extraInfo check" }];
+  }
+  const info = (extraInfo ?? {}) as Record<string, unknown>;
+  return Object.entries(expected ?? {})
+    .filter(([key, value]) => !equal(info[key], value))
+    .map(([key]) => ({
+      check: "extraInfo",
+      reason: `"${key}" doesn't match`,
+    }));
+}
+
+// Checks a sign-in against the input the server asked for: the ed25519
+// signature, every field of `expected` that is set, the time window and
+// `extraInfo`. Never throws; look at `valid` and `failures`.
+export function verifySignInOutput(
+  expected: SolanaSignInInput,
+  output: HyperLinkSignInOutput,
+  options: SignInVerificationOptions = {}
+): SignInVerification {
+  const failures: SignInFailure[] = [];
+  const { account, signedMessage, signature } = output;
+
+  let signatureValid = false;
+  try {
+    signatureValid = verifyMessageSignature({
+      message: signedMessage,
+      signedMessage,
+      signature,
+      publicKey: account.publicKey as Uint8Array,
+    });
+  } catch {
+    // malformed key or signature
+  }
+  if (!signatureValid) {
+    failures.push({
+      check: "signature",
+      reason: "not a valid signature of the message by the account",
+    });
+  }
+
+  const fields = parseSignInMessage(signedMessage);
+  if (!fields) {
+    failures.push({
+      check: "message",
+      reason: "not a Sign-In With Solana message",
+    });
+    return { valid: false, failures, fields: null };
+  }
+
+  if (
+    fields.address !== account.address ||
+    bs58.encode(account.publicKey as Uint8Array) !== account.address
+  ) {
+    failures.push({
+      check: "address",
+      reason: "the message isn't for the signing account",
+    });
+  } else if (expected.address && fields.address !== expected.address) {
+    failures.push({ check: "address", reason: `expected ${expected.address}` });
+  }
+
+  for (const field of EXACT_FIELDS) {
+    const value = expected[field];
+    if (value !== undefined && fields[field] !== value) {
+      failures.push({
+        check: field,
+        reason: `expected "${value}", got ${
+          fields[field] === undefined ? "none" : `"${fields[field]}"`
+        }`,
+      });
+    }
+  }
+
+  if (expected.resources) {
+    const signed = fields.resources ?? [];
+    const missing = expected.resources.filter(
+      (resource) => !signed.includes(resource)
+    );
+    const extra = signed.filter(
+      (resource) => !expected.resources?.includes(resource)
+    );
+    if (missing.length > 0 || extra.length > 0) {
+      failures.push({
+        check: "resources",
+        reason: [
+          missing.length > 0 && `missing ${missing.join(", ")}`,
+          extra.length > 0 && `unexpected ${extra.join(", ")}`,
+        ]
+          .filter(Boolean)
+          .join("; "),
+      });
+    }
+  }
+
+  failures.push(
+    ...checkTimes(fields, options),
+    ...checkExtraInfo(output.extraInfo, options.extraInfo)
+  );
+  return { valid: failures.length === 0, failures, fields };
+}
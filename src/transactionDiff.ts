@@ -0,0 +1,154 @@
+import { isVersionedTransaction } from "@solana/wallet-adapter-base";
+import {
+  ComputeBudgetProgram,
+  type Transaction,
+  type VersionedMessage,
+  type VersionedTransaction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+
+export type TransactionChange = {
+  field:
+    | "version"
+    | "blockhash"
+    | "accounts"
+    | "addressLookupTables"
+    | "instructions";
+  // e.g. "added 9xQe…: writable"
+  detail: string;
+};
+
+// true lets the wallet change anything, "computeBudget" only lets it add or
+// change ComputeBudget instructions, e.g. to set a priority fee
+export type WalletModificationPolicy = boolean | "computeBudget";
+
+type NormalizedMessage = {
+  version: string;
+  blockhash: string;
+  accounts: string[];
+  addressLookupTables: string[];
+  instructions: string[];
+};
+
+function messageOf(
+  transaction: Transaction | VersionedTransaction
+): VersionedMessage {
+  return isVersionedTransaction(transaction)
+    ? transaction.message
+    : transaction.compileMessage();
+}
+
+function normalize(
+  transaction: Transaction | VersionedTransaction,
+  ignoreComputeBudget: boolean
+): NormalizedMessage {
+  const message = messageOf(transaction);
+  const { staticAccountKeys } = message;
+  const computeBudgetProgram = ComputeBudgetProgram.programId.toBase58();
+  // loaded accounts come after the static keys, all writable ones first. Name
+  // them by table and index so added static keys don't shift them.
+  const loadedAccounts = [
+    ...message.addressTableLookups.flatMap(({ accountKey, writableIndexes }) =>
+      writableIndexes.map((index) => `${accountKey.toBase58()}[${index}]`)
+    ),
+    ...message.addressTableLookups.flatMap(({ accountKey, readonlyIndexes }) =>
+      readonlyIndexes.map((index) => `${accountKey.toBase58()}[${index}]`)
+    ),
+  ];
+  const accountName = (index: number) =>
+    staticAccountKeys[index]?.toBase58() ??
+    loadedAccounts[index - staticAccountKeys.length] ??
+    `unknown account #${index}`;
+
+  return {
+    version: String(message.version),
+    blockhash: message.recentBlockhash,
+    accounts: staticAccountKeys
+      .map((key, index) => {
+        const flags = [
+          message.isAccountSigner(index) && "signer",
+          message.isAccountWritable(index) && "writable",
+        ].filter(Boolean);
+        return `${key.toBase58()}${flags.length ? `: ${flags.join(", ")}` : ""}`;
+      })
+      .filter(
+        (account) =>
+          !ignoreComputeBudget || !account.startsWith(computeBudgetProgram)
+      ),
+    addressLookupTables: message.addressTableLookups.map(
+      ({ accountKey, writableIndexes, readonlyIndexes }) =>
+        `${accountKey.toBase58()} [${writableIndexes}] [${readonlyIndexes}]`
+    ),
+    instructions: message.compiledInstructions
+      .filter(
+        ({ programIdIndex }) =>
+          !ignoreComputeBudget ||
+          accountName(programIdIndex) !== computeBudgetProgram
+      )
+      .map(
+        ({ programIdIndex, accountKeyIndexes, data }) =>
+          `${accountName(programIdIndex)} (${accountKeyIndexes
+            .map(accountName)
+            .join(", ")}) ${Buffer.from(data).toString("base64")}`
+      ),
+  };
+}
+
+function diffLists(
+  field: TransactionChange["field"],
+  sent: string[],
+  returned: string[]
+): TransactionChange[] {
+  const changes: TransactionChange[] = [];
+  const added = returned.filter((entry) => !sent.includes(entry));
+  const removed = sent.filter((entry) => !returned.includes(entry));
+  added.forEach((entry) => changes.push({ field, detail: `added ${entry}` }));
+  removed.forEach((entry) =>
+    changes.push({ field, detail: `removed ${entry}` })
+  );
+  if (
+    changes.length === 0 &&
+    sent.some((entry, index) => entry !== returned[index])
+  ) {
+    changes.push({ field, detail: "reordered" });
+  }
+  return changes;
+}
+
+// What the wallet changed in the message of `returned` compared to `sent`.
+// Empty if the message is unchanged, or only differs in ways `allowed` permits.
+export function diffTransactionMessages(
+  sent: Transaction | VersionedTransaction,
+  returned: Transaction | VersionedTransaction,
+  allowed: WalletModificationPolicy = false
+): TransactionChange[] {
+  if (allowed === true) {
+    return [];
+  }
+  const ignoreComputeBudget = allowed === "computeBudget";
+  const before = normalize(sent, ignoreComputeBudget);
+  const after = normalize(returned, ignoreComputeBudget);
+  const changes: TransactionChange[] = [];
+  if (before.version !== after.version) {
+    changes.push({
+      field: "version",
+      detail: `${before.version} changed to ${after.version}`,
+    });
+  }
+  if (before.blockhash !== after.blockhash) {
+    changes.push({
+      field: "blockhash",
+      detail: `${before.blockhash} changed to ${after.blockhash}`,
+    });
+  }
+  return [
+    ...changes,
+    ...diffLists("accounts", before.accounts, after.accounts),
+    ...diffLists(
+      "addressLookupTables",
+      before.addressLookupTables,
+      after.addressLookupTables
+    ),
+    ...diffLists("instructions", before.instructions, after.instructions),
+  ];
+}
@@ -0,0 +1,54 @@
+import type { HYPERLINK_BUILD_ENV_TYPE } from "./interfaces";
+import { resolveTrustedOrigins } from "./utils";
+
+export type TransportMessageEvent = {
+  origin: string;
+  data: unknown;
+  // the posting window, when the transport knows it
+  source?: MessageEventSource | null;
+};
+
+// How `WindowCommunicator` reaches the HyperLink iframe and login popup. The
+// default talks to the real windows with postMessage; tests can swap in
+// `HyperLinkHostSimulator` to play the iframe side in-process.
+export interface HyperLinkTransport {
+  // Origin the HyperLink pages are served from. Outgoing messages are
+  // addressed to it.
+  readonly origin: string;
+  // Origins incoming messages are accepted from, just `origin` if unset
+  readonly trustedOrigins?: readonly string[];
+  post(target: Window, data: unknown, transfer?: Transferable[]): void;
+  // Returns a function that stops listening
+  listen(listener: (event: TransportMessageEvent) => void): () => void;
+  // Called once the HyperLink iframe has been added to the document
+  attachIframe?(iframe: HTMLIFrameElement): void;
+  // Replaces the allowlist lookup against the HyperLink API when provided
+  checkAllowList?(clientId: string, origin: string): Promise<boolean>;
+}
+
+export class WindowTransport implements HyperLinkTransport {
+  readonly origin: string;
+  readonly trustedOrigins: readonly string[];
+
+  constructor(
+    buildEnv: HYPERLINK_BUILD_ENV_TYPE,
+    trustedOrigins?: readonly string[]
+  ) {
+    this.trustedOrigins = resolveTrustedOrigins(buildEnv, trustedOrigins);
+    this.origin = this.trustedOrigins[0];
+  }
+
+  post(target: Window, data: unknown, transfer?: Transferable[]): void {
+    target.postMessage(data, this.origin, transfer);
+  }
+
+  listen(listener: (event: TransportMessageEvent) => void): () => void {
+    const onMessage = (event: MessageEvent) => {
+      listener(event);
+    };
+    window.addEventListener("message", onMessage);
+    return () => {
+      window.removeEventListener("message", onMessage);
+    };
+  }
+}
@@ -18,11 +18,34 @@ export const getHyperLinkUrl = (buildEnv: HYPERLINK_BUILD_ENV_TYPE): string => {
       return "https://curiousdev.xyz";
   }
 };
-export function getCloseButtonUrl(buildEnv: HYPERLINK_BUILD_ENV_TYPE): string {
-  const logoUrl = new URL(
-    "adapter-popup-close-icon.svg",
-    getHyperLinkUrl(buildEnv)
-  );
+// Normalizes the configured wallet host origins. The first one hosts the iframe
+// and popup and is where messages are posted; messages from any of them are
+// accepted. Defaults to the single HyperLink origin for the build.
+export function resolveTrustedOrigins(
+  buildEnv: HYPERLINK_BUILD_ENV_TYPE,
+  trustedOrigins?: readonly string[]
+): string[] {
+  if (!trustedOrigins || trustedOrigins.length === 0) {
+    return [getHyperLinkUrl(buildEnv)];
+  }
+  const origins = trustedOrigins.map((origin) => {
+    const url = new URL(origin);
+    const isLocalhost =
+      url.hostname === "localhost" || url.hostname === "127.0.0.1";
+    if (
+      url.protocol !== "https:" &&
+      !(isLocalhost && url.protocol === "http:")
+    ) {
+      throw new Error(`Trusted origin must use https: ${origin}`);
+    }
+    return url.origin;
+  });
+  return [...new Set(origins)];
+}
+
+// `origin` is where the wallet is hosted, e.g. `WindowCommunicator.origin`
+export function getCloseButtonUrl(origin: string): string {
+  const logoUrl = new URL("adapter-popup-close-icon.svg", origin);
   return logoUrl.toString();
 }
 
@@ -54,8 +77,11 @@ export function iFrameUrl({
   autoConnect,
   walletAdapterNetwork,
   hideWalletOnboard,
+  hostUrl,
 }: {
   buildEnv: HYPERLINK_BUILD_ENV_TYPE;
+  // overrides the default HyperLink origin, see resolveTrustedOrigins
+  hostUrl?: string;
   clientId: string;
   walletAdapterNetwork:
     | WalletAdapterNetwork.Mainnet
@@ -66,7 +92,7 @@ export function iFrameUrl({
   autoConnect?: boolean;
   hideWalletOnboard?: boolean;
 }): string {
-  const hyperLinkUrl = getHyperLinkUrl(buildEnv);
+  const hyperLinkUrl = hostUrl ?? getHyperLinkUrl(buildEnv);
   const hyperLinkIframeUrl = new URL(iframePath, hyperLinkUrl);
   hyperLinkIframeUrl.searchParams.append("c", clientId);
   hyperLinkIframeUrl.searchParams.append(
@@ -57,6 +57,39 @@ import {
   } from "@wallet-standard/wallet";
   import type { WalletAccount } from "@wallet-standard/base";
   import bs58 from "bs58";
+  import { HYPERLINK_CAPABILITY } from "./protocol";
+  import { findHyperLinkError } from "./errors";
+  import type {
+    SignAndSendAllTransactionsOptions,
+    SignAndSendTransactionResult,
+  } from "./broadcast";
+
+  // Implemented by HyperLinkWalletAdapter, which can't be imported here
+  type BatchMessageSigner = {
+    signAllMessages(messages: Uint8Array[]): Promise<Uint8Array[]>;
+    supports(capability: string): boolean;
+  };
+  // Wallet Standard apps have no WalletError classes to check, so hand them the
+  // typed HyperLinkError the adapter wrapped
+  function rethrowHyperLinkErrors<A extends readonly unknown[], R>(
+    method: (...args: A) => Promise<R>
+  ): (...args: A) => Promise<R> {
+    return async (...args) => {
+      try {
+        return await method(...args);
+      } catch (error) {
+        throw findHyperLinkError(error) ?? error;
+      }
+    };
+  }
+
+  type BatchTransactionSender = {
+    signAndSendAllTransactions(
+      transactions: (Transaction | VersionedTransaction)[],
+      connection: Connection,
+      options?: SignAndSendAllTransactionsOptions
+    ): Promise<SignAndSendTransactionResult[]>;
+  };
   
   function walletAccountsEqual(a?: WalletAccount, b?: WalletAccount): boolean {
     if (!a && !b) {
@@ -152,7 +185,7 @@ import {
         SolanaSignAndSendTransactionFeature = {
         [StandardConnect]: {
           version: "1.0.0",
-          connect: this.#connect,
+          connect: rethrowHyperLinkErrors(this.#connect),
         },
         [StandardDisconnect]: {
           version: "1.0.0",
@@ -165,7 +198,9 @@ import {
         [SolanaSignAndSendTransaction]: {
           version: "1.0.0",
           supportedTransactionVersions: this.#supportedTransactionVersions,
-          signAndSendTransaction: this.#signAndSendTransaction,
+          signAndSendTransaction: rethrowHyperLinkErrors(
+            this.#signAndSendTransaction
+          ),
         },
       };
   
@@ -175,7 +210,7 @@ import {
           [SolanaSignTransaction]: {
             version: "1.0.0",
             supportedTransactionVersions: this.#supportedTransactionVersions,
-            signTransaction: this.#signTransaction,
+            signTransaction: rethrowHyperLinkErrors(this.#signTransaction),
           },
         };
       }
@@ -185,7 +220,7 @@ import {
         signMessageFeature = {
           [SolanaSignMessage]: {
             version: "1.0.0",
-            signMessage: this.#signMessage,
+            signMessage: rethrowHyperLinkErrors(this.#signMessage),
           },
         };
       }
@@ -195,7 +230,7 @@ import {
         signInFeature = {
           [SolanaSignIn]: {
             version: "1.0.0",
-            signIn: this.#signIn,
+            signIn: rethrowHyperLinkErrors(this.#signIn),
           },
         };
       }
@@ -383,9 +418,84 @@ import {
   
         outputs.push({ signature: bs58.decode(signature) });
       } else if (inputs.length > 1) {
-        // Adapters have no `sendAllTransactions` method, so just sign and send each transaction in serial.
-        for (const input of inputs) {
-          outputs.push(...(await this.#signAndSendTransaction(input)));
+        const adapter = this.#adapter as Adapter &
+          Partial<BatchTransactionSender>;
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        const first = inputs[0]!;
+        if (
+          adapter.signAndSendAllTransactions &&
+          inputs.every(({ chain }) => chain === first.chain)
+        ) {
+          for (const input of inputs) {
+            if (!walletAccountsEqual(input.account, this.#account))
+              throw new Error("invalid account");
+          }
+          if (!isSolanaChain(first.chain)) throw new Error("invalid chain");
+          const transactions = inputs.map(({ transaction }) =>
+            this.#deserializeTransaction(transaction)
+          );
+          // The batch is sent over one connection, so the first input's options apply to all.
+          const {
+            commitment,
+            preflightCommitment,
+            skipPreflight,
+            maxRetries,
+            minContextSlot,
+          } = first.options || {};
+          const endpoint = getEndpointForChain(first.chain, this.#endpoint);
+          const connection = new Connection(endpoint, commitment || "confirmed");
+  
+          const latestBlockhash = commitment
+            ? await connection.getLatestBlockhash({
+                commitment: preflightCommitment || commitment,
+                minContextSlot,
+              })
+            : undefined;
+  
+          const results = await adapter.signAndSendAllTransactions(
+            transactions,
+            connection,
+            {
+              preflightCommitment,
+              skipPreflight,
+              maxRetries,
+              minContextSlot,
+              mode: "serial",
+            }
+          );
+  
+          // The standard has no partial outputs. In serial mode the first unsent result is the failure.
+          const signatures = results.map((result) => {
+            if (result.status === "failed") throw result.error;
+            if (result.status === "skipped")
+              throw new Error("transaction not sent");
+            return result.signature;
+          });
+  
+          if (latestBlockhash) {
+            await Promise.all(
+              signatures.map((signature) =>
+                connection.confirmTransaction(
+                  {
+                    ...latestBlockhash,
+                    signature,
+                  },
+                  commitment || "confirmed"
+                )
+              )
+            );
+          }
+  
+          outputs.push(
+            ...signatures.map((signature) => ({
+              signature: bs58.decode(signature),
+            }))
+          );
+        } else {
+          // Without a batch method, just sign and send each transaction in serial.
+          for (const input of inputs) {
+            outputs.push(...(await this.#signAndSendTransaction(input)));
+          }
         }
       }
   
@@ -410,6 +520,8 @@ import {
           transaction
         );
   
+        // the adapter has already verified the user's signature; other
+        // signers may still be missing
         const serializedTransaction = isVersionedTransaction(signedTransaction)
           ? signedTransaction.serialize()
           : new Uint8Array(
@@ -474,9 +586,30 @@ import {
   
         outputs.push({ signedMessage: input.message, signature });
       } else if (inputs.length > 1) {
-        // Adapters have no `signAllMessages` method, so just sign each message in serial.
-        for (const input of inputs) {
-          outputs.push(...(await this.#signMessage(input)));
+        const adapter = this.#adapter as Adapter & Partial<BatchMessageSigner>;
+        if (
+          adapter.signAllMessages &&
+          adapter.supports?.(HYPERLINK_CAPABILITY.BATCH_MESSAGE_SIGNING)
+        ) {
+          for (const input of inputs) {
+            if (!walletAccountsEqual(input.account, this.#account))
+              throw new Error("invalid account");
+          }
+          const signatures = await adapter.signAllMessages(
+            inputs.map(({ message }) => message)
+          );
+          outputs.push(
+            ...inputs.map((input, index) => ({
+              signedMessage: input.message,
+              // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+              signature: signatures[index]!,
+            }))
+          );
+        } else {
+          // The wallet can't sign a batch in one prompt, so just sign each message in serial.
+          for (const input of inputs) {
+            outputs.push(...(await this.#signMessage(input)));
+          }
         }
       }
   
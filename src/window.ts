@@ -1,20 +1,62 @@
 import type { PopupType } from "./embed.js";
 import { type HYPERLINK_BUILD_ENV_TYPE } from "./interfaces.js";
-import { getHyperLinkUrl } from "./utils.js";
+import {
+  WindowTransport,
+  type HyperLinkTransport,
+  type TransportMessageEvent,
+} from "./transport.js";
 import { v4 as uuid } from "uuid";
+import { EventEmitter } from "@solana/wallet-adapter-base";
+import { Logger } from "./logger.js";
+import {
+  createEnvelope,
+  hasEnvelope,
+  ReplayGuard,
+  type SessionIds,
+} from "./replay.js";
+import {
+  HyperLinkRequestAbortedError,
+  HyperLinkRequestTimeoutError,
+  type HyperLinkProtocolError,
+} from "./errors.js";
+import {
+  ENVELOPE_PROTOCOL_VERSION,
+  isIncomingMessageType,
+  parseIncomingMessage,
+  REQUEST_REPLIES,
+  type IncomingMessage,
+  type IncomingMessageOf,
+  type IncomingMessageType,
+  type OutgoingMessage,
+  type ReplyOf,
+  type RequestPayload,
+  type RequestType,
+} from "./protocol.js";
 
 export enum CallbackType {
   DEFAULT,
   POST,
 }
 export type WindowCallbacks = {
-  [key: string]: {
+  [T in IncomingMessageType]?: {
     type: CallbackType;
-    cb: (data: any) => Promise<any>;
+    cb: (data: IncomingMessageOf<T>) => Promise<any>;
   };
 };
 export type CloseFn = () => void;
-export type PostFn = (data: any, publicKeyOverride?: string) => void;
+export type PostFn = (data: OutgoingMessage, publicKeyOverride?: string) => void;
+export type ProtocolErrorFn = (error: HyperLinkProtocolError) => void;
+export type RequestOptions = {
+  // reject and cancel the request if no reply arrives in time
+  timeoutMs?: number;
+  // reject and cancel the request when aborted
+  signal?: AbortSignal;
+  // HyperLinkEmbed runs one request at a time: higher priorities go first and
+  // "reject" fails fast instead of waiting. Queue time doesn't count towards
+  // `timeoutMs`.
+  priority?: number;
+  ifBusy?: "queue" | "reject";
+};
 
 export type WindowOpenParams = {
   popup: Window;
@@ -28,9 +70,175 @@ export type WindowOpenParams = {
   };
 };
 
+export type PopupPosition =
+  // centered on the dApp's top window, falling back to the screen
+  | "center"
+  | "screen"
+  // screen coordinates of the popup's top left corner
+  | { left: number; top: number };
+
+export type PopupOptions = {
+  width?: number;
+  height?: number;
+  position?: PopupPosition;
+  // mobile browsers ignore popup sizes, "tab" opens a plain new tab instead
+  mobileTarget?: "tab" | "window";
+};
+
+const DEFAULT_POPUP_OPTIONS: Required<PopupOptions> = {
+  width: 400,
+  height: 600,
+  position: "center",
+  mobileTarget: "tab",
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+function isMobileDevice(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    /android|iphone|ipad|ipod/i.test(navigator.userAgent)
+  );
+}
+
+function getScreenRect(): Rect | undefined {
+  const { availWidth, availHeight } = window.screen ?? {};
+  if (!availWidth || !availHeight) {
+    return undefined;
+  }
+  return { x: 0, y: 0, width: availWidth, height: availHeight };
+}
+
+// Reading `window.top` geometry throws when the dApp runs in a cross-origin
+// frame, so fall back to our own window and then to the screen
+function getAnchorRect(position: "center" | "screen"): Rect | undefined {
+  if (position === "center") {
+    const candidates = [() => window.top, () => window];
+    for (const candidate of candidates) {
+      try {
+        const target = candidate();
+        if (target && target.outerWidth && target.outerHeight) {
+          return {
+            x: target.screenX,
+            y: target.screenY,
+            width: target.outerWidth,
+            height: target.outerHeight,
+          };
+        }
+      } catch {
+        // cross-origin, try the next candidate
+      }
+    }
+  }
+  return getScreenRect();
+}
+
+function getPopupGeometry(options: PopupOptions = {}): Rect {
+  const { width, height, position } = {
+    ...DEFAULT_POPUP_OPTIONS,
+    ...options,
+  };
+  const screenRect = getScreenRect();
+  // never ask for a window bigger than the screen it opens on
+  const popupWidth = Math.min(width, screenRect?.width ?? width);
+  const popupHeight = Math.min(height, screenRect?.height ?? height);
+  if (typeof position === "object") {
+    return {
+      x: position.left,
+      y: position.top,
+      width: popupWidth,
+      height: popupHeight,
+    };
+  }
+  const anchor = getAnchorRect(position);
+  return {
+    x: anchor ? anchor.x + anchor.width / 2 - popupWidth / 2 : 0,
+    y: anchor ? anchor.y + anchor.height / 2 - popupHeight / 2 : 0,
+    width: popupWidth,
+    height: popupHeight,
+  };
+}
+
+export interface PopupMonitorEvents {
+  // the user closed the popup
+  closed(): unknown;
+  // the dApp window took focus back while the popup is still open
+  focusLost(): unknown;
+}
+
+const POPUP_POLL_INTERVAL_MS = 300;
+
+// Watches a popup until it closes or `dispose` is called. `closed` fires at
+// most once, after which the monitor disposes itself.
+export class PopupMonitor extends EventEmitter<PopupMonitorEvents> {
+  // the popup never opened, e.g. a popup blocker stopped it; such a popup
+  // isn't watched, so check this right after constructing the monitor
+  readonly blocked: boolean;
+  private readonly popup: Window | null | undefined;
+  private interval: ReturnType<typeof setInterval> | undefined;
+  private disposed = false;
+
+  constructor(
+    popup: Window | null | undefined,
+    pollIntervalMs = POPUP_POLL_INTERVAL_MS
+  ) {
+    super();
+    this.popup = popup;
+    this.blocked = !popup || popup.closed;
+    if (this.blocked) {
+      this.disposed = true;
+      return;
+    }
+    this.interval = setInterval(() => {
+      if (!this.popup || this.popup.closed) {
+        this.finish();
+      }
+    }, pollIntervalMs);
+    window.addEventListener("focus", this.onOpenerFocus);
+  }
+
+  get isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    clearInterval(this.interval);
+    window.removeEventListener("focus", this.onOpenerFocus);
+    this.removeAllListeners();
+  }
+
+  private onOpenerFocus = () => {
+    if (this.popup && !this.popup.closed) {
+      this.emit("focusLost");
+    }
+  };
+
+  private finish() {
+    if (this.disposed) return;
+    this.emit("closed");
+    this.dispose();
+  }
+}
+
+type MessageHandler = (data: any) => void;
+
 export class WindowCommunicator {
   private readonly baseUrl: string;
+  private readonly trustedOrigins: ReadonlySet<string>;
   private publicKey?: string;
+  // Handlers keyed by the `windowName` the other side stamps on its messages.
+  // Fed by a single transport listener and by any open MessagePorts.
+  private readonly handlers = new Map<string, Set<MessageHandler>>();
+  private readonly ports = new Map<Window, MessagePort>();
+  private readonly transport: HyperLinkTransport;
+  private stopListening: CloseFn | undefined;
+  private readonly logger: Logger;
+  private readonly replayGuard = new ReplayGuard();
+  private session: SessionIds = {};
+  // set once the iframe negotiates a protocol version that stamps envelopes
+  private envelopesRequired = false;
   private windowOpenFailHandler: (
     onAlertClick: () => void,
     onAlertClose: () => void,
@@ -43,27 +251,159 @@ export class WindowCommunicator {
       onAlertClick: () => void,
       onAlertClose: () => void,
       popupType: PopupType
-    ) => void
+    ) => void,
+    transport: HyperLinkTransport = new WindowTransport(buildEnv),
+    logger: Logger = new Logger()
   ) {
-    this.baseUrl = getHyperLinkUrl(buildEnv);
+    this.logger = logger.child("window");
+    this.transport = transport;
+    this.baseUrl = transport.origin;
+    this.trustedOrigins = new Set(transport.trustedOrigins ?? [this.baseUrl]);
     this.windowOpenFailHandler = windowOpenFailHandler;
   }
 
+  // Where the iframe, the popup and HyperLink assets are loaded from
+  get origin(): string {
+    return this.baseUrl;
+  }
+
+  attachIframe(iFrame: HTMLIFrameElement): void {
+    this.transport.attachIframe?.(iFrame);
+  }
+
   updatePublicKey(publicKey: string): void {
     this.publicKey = publicKey;
   }
 
-  post = (window: Window, data: any, publicKeyOverride?: string) => {
-    window.postMessage(
-      {
-        ...data,
-        publicKey: publicKeyOverride || this.publicKey,
-      },
-      this.baseUrl
-    );
+  // Stamped on every outgoing envelope and checked on incoming ones
+  setSession(session: SessionIds): void {
+    this.session = session;
+  }
+
+  // Called with the negotiated version; from ENVELOPE_PROTOCOL_VERSION on,
+  // messages without an envelope or session ids are dropped
+  setProtocolVersion(version: number): void {
+    this.envelopesRequired = version >= ENVELOPE_PROTOCOL_VERSION;
+  }
+
+  post = (
+    window: Window,
+    data: OutgoingMessage,
+    publicKeyOverride?: string
+  ) => {
+    const message = {
+      ...data,
+      ...createEnvelope(this.session),
+      publicKey: publicKeyOverride || this.publicKey,
+    };
+    this.logger.trace.record("sent", message);
+    const port = this.ports.get(window);
+    if (port) {
+      port.postMessage(message);
+    } else {
+      this.transport.post(window, message);
+    }
+  };
+
+  // Posts `data` (normally the handshake `ack`) together with one end of a new
+  // MessageChannel. From then on messages to and from `window` go over the
+  // port and window-wide messages from it are ignored; windows without a port
+  // keep using window-wide postMessage.
+  openMessagePort(window: Window, data: OutgoingMessage): boolean {
+    if (typeof MessageChannel === "undefined") {
+      return false;
+    }
+    this.closeMessagePort(window);
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event: MessageEvent) => {
+      this.dispatch(event.data);
+    };
+    this.ports.set(window, channel.port1);
+    const message = {
+      ...data,
+      ...createEnvelope(this.session),
+      publicKey: this.publicKey,
+    };
+    this.logger.trace.record("sent", message);
+    this.transport.post(window, message, [channel.port2]);
+    return true;
+  }
+
+  closeMessagePort(window: Window): void {
+    const port = this.ports.get(window);
+    if (port) {
+      port.onmessage = null;
+      port.close();
+      this.ports.delete(window);
+    }
+  }
+
+  private onWindowMessage = (event: TransportMessageEvent) => {
+    // NOTE: THIS IS IMPERATIVE TO PREVENT MIDDLE MAN ATTACKS. WE ONLY WANT TO ALLOW
+    // MESSAGES FROM OUR SITE.
+    if (!this.trustedOrigins.has(event.origin)) {
+      return;
+    }
+    // a window we share a MessagePort with only talks to us over the port
+    if (event.source && this.ports.has(event.source as Window)) {
+      this.logger.debug("ignoring window message from a port peer", event.data);
+      return;
+    }
+    this.dispatch(event.data);
   };
 
-  singlePostToWindow = (window: Window, data: any) => {
+  private dispatch(data: any) {
+    this.logger.trace.record("received", data);
+    const windowName = data?.windowName;
+    if (typeof windowName !== "string") {
+      return;
+    }
+    const handlers = this.handlers.get(windowName);
+    if (!handlers) {
+      this.logger.debug("ignoring message for another window", data);
+      return;
+    }
+    // Iframe builds that predate envelopes send none; their replies are still
+    // only accepted once, by the request that is waiting for them
+    if (
+      (this.envelopesRequired || hasEnvelope(data)) &&
+      !this.replayGuard.accept(data, this.session, this.envelopesRequired)
+    ) {
+      this.logger.warn("dropping replayed or expired message", data);
+      return;
+    }
+    // copy, handlers may unsubscribe while we iterate
+    for (const handler of [...handlers]) {
+      handler(data);
+    }
+  }
+
+  private subscribe(windowName: string, handler: MessageHandler): CloseFn {
+    if (!this.stopListening) {
+      this.stopListening = this.transport.listen(this.onWindowMessage);
+    }
+    let handlers = this.handlers.get(windowName);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(windowName, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      const current = this.handlers.get(windowName);
+      if (!current?.delete(handler)) {
+        return;
+      }
+      if (current.size === 0) {
+        this.handlers.delete(windowName);
+      }
+      if (this.handlers.size === 0) {
+        this.stopListening?.();
+        this.stopListening = undefined;
+      }
+    };
+  }
+
+  singlePostToWindow = (window: Window, data: OutgoingMessage) => {
     this.post(window, data);
   };
 
@@ -71,72 +411,80 @@ export class WindowCommunicator {
     otherWindow: Window,
     windowCallbacks: WindowCallbacks,
     windowName: string,
-    endSignals: string[],
-    requestId?: string
+    endSignals: IncomingMessageType[],
+    requestId?: string,
+    onProtocolError?: ProtocolErrorFn
   ): { post: PostFn; close: CloseFn } {
     const post = this.post.bind(this, otherWindow);
 
-    const endSignalsSet = new Set(endSignals);
-    const listener = async (event: {
-      origin: string;
-      data: { type: string; windowName: string; requestId: string };
-    }) => {
-      // NOTE: THIS IS IMPERATIVE TO PREVENT MIDDLE MAN ATTACKS. WE ONLY WANT TO ALLOW
-      // MESSAGES FROM OUR SITE.
-      if (event.origin !== this.baseUrl) {
-        // console.log("received unoriginal event", event);
+    const endSignalsSet = new Set<string>(endSignals);
+    // Origin and windowName are already checked by the time `data` gets here,
+    // see `onWindowMessage` and `dispatch`
+    const listener = async (data: any) => {
+      if (requestId && data.requestId !== requestId) {
         return;
       }
-      if (event.data.windowName !== windowName) {
-        // console.log("received event for different window", event);
+      if (!data?.type) {
+        this.logger.debug("ignoring message without a type", data);
         return;
       }
-      if (requestId && event.data.requestId !== requestId) {
-        // console.log("received event for different requestId", event);
+      const messageType: unknown = data.type;
+      if (!isIncomingMessageType(messageType)) {
+        this.logger.debug("ignoring unknown message type", messageType);
         return;
       }
-      // console.log("received message", event.data);
-      if (!event.data?.type) {
-        // console.log("missing type in", event.data);
+      const windowCallback = windowCallbacks[messageType] as
+        | {
+            type: CallbackType;
+            cb: (data: IncomingMessage) => Promise<any>;
+          }
+        | undefined;
+      if (!windowCallback) {
         return;
       }
-      const windowCallback = windowCallbacks[event.data.type];
-      if (!windowCallback) {
-        // console.log("NO WINDOW CALLBACK", event.data.type);
+      // Never hand a malformed payload to a callback, e.g. a `signed_transaction`
+      // without the signed transaction would otherwise resolve with `undefined`
+      let message: IncomingMessage;
+      try {
+        message = parseIncomingMessage(data);
+      } catch (error) {
+        this.logger.error("rejected malformed message", error);
+        if (endSignalsSet.has(messageType)) {
+          unsubscribe();
+        }
+        onProtocolError?.(error as HyperLinkProtocolError);
         return;
       }
       const { type, cb: callback } = windowCallback;
-      // console.log("type", type, "callback", callback);
-      if (endSignalsSet.has(event.data.type)) {
-        window.removeEventListener("message", listener);
+      if (endSignalsSet.has(message.type)) {
+        unsubscribe();
       }
       if (callback) {
         switch (type) {
           case CallbackType.DEFAULT:
-            void callback(event.data);
+            void callback(message);
             break;
           case CallbackType.POST:
-            post(await callback(event.data));
+            post(await callback(message));
             break;
         }
       }
     };
 
-    window.addEventListener("message", listener);
+    const unsubscribe = this.subscribe(windowName, listener);
 
     return {
       post,
-      close: () => {
-        window.removeEventListener("message", listener);
-      },
+      close: unsubscribe,
     };
   }
 
   setupHandshakeWithIframe(
     iFrame: HTMLIFrameElement,
     windowCallbacks: WindowCallbacks,
-    endSignals: string[],
-    requestId?: string
+    endSignals: IncomingMessageType[],
+    requestId?: string,
+    onProtocolError?: ProtocolErrorFn
   ): { post: PostFn; close: CloseFn } {
     const windowName = iFrame.name;
     const iframeWindow = iFrame.contentWindow;
@@ -148,26 +496,94 @@ export class WindowCommunicator {
       windowCallbacks,
       windowName,
       endSignals,
-      requestId
+      requestId,
+      onProtocolError
     );
   }
 
-  openPopup(path: string): WindowOpenParams {
+  // Posts a request to the iframe and resolves with its reply (success or
+  // rejection, see REQUEST_REPLIES). Times out or aborts by posting
+  // `cancel_request` to the iframe; listeners are always torn down.
+  request<T extends RequestType>(
+    iFrame: HTMLIFrameElement,
+    type: T,
+    payload: RequestPayload<T>,
+    { timeoutMs, signal }: RequestOptions = {}
+  ): Promise<ReplyOf<T>> {
+    return new Promise<ReplyOf<T>>((resolve, reject) => {
+      const requestId = uuid();
+      if (signal?.aborted) {
+        reject(new HyperLinkRequestAbortedError(type, requestId));
+        return;
+      }
+      const {
+        resolve: resolveType,
+        reject: rejectTypes,
+        correlated,
+      } = REQUEST_REPLIES[type];
+      const replyTypes: IncomingMessageType[] = [resolveType, ...rejectTypes];
+
+      let settled = false;
+      let timeout: ReturnType<typeof setTimeout> | undefined = undefined;
+      let close: CloseFn | undefined = undefined;
+      const settle = (fn: () => void) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+        close?.();
+        fn();
+      };
+
+      const windowCallbacks = Object.fromEntries(
+        replyTypes.map((replyType) => [
+          replyType,
+          {
+            type: CallbackType.DEFAULT,
+            cb: async (data: IncomingMessage) => {
+              settle(() => resolve(data as ReplyOf<T>));
+            },
+          },
+        ])
+      ) as WindowCallbacks;
+      const handshake = this.setupHandshakeWithIframe(
+        iFrame,
+        windowCallbacks,
+        replyTypes,
+        correlated ? requestId : undefined,
+        (error) => settle(() => reject(error))
+      );
+      close = handshake.close;
+
+      const cancel = (error: Error) => {
+        handshake.post({ type: "cancel_request", requestId });
+        settle(() => reject(error));
+      };
+      const onAbort = () => {
+        cancel(new HyperLinkRequestAbortedError(type, requestId));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeoutMs !== undefined) {
+        timeout = setTimeout(() => {
+          cancel(new HyperLinkRequestTimeoutError(type, requestId, timeoutMs));
+        }, timeoutMs);
+      }
+
+      handshake.post({ ...payload, type, requestId } as OutgoingMessage);
+    });
+  }
+
+  openPopup(path: string, options: PopupOptions = {}): WindowOpenParams {
     const url = new URL(path, this.baseUrl);
     const windowName = uuid();
 
-    const width = 400;
-    const height = 600;
-
-    // Calculate the position
-    const top = window.top || window;
-    const y = top.outerHeight / 2 + top.screenY - height / 2;
-    const x = top.outerWidth / 2 + top.screenX - width / 2;
-    const popup = window.open(
-      url,
-      windowName,
-      `width=${width}, height=${height}, top=${y}, left=${x}`
-    ) as Window;
+    const { mobileTarget } = { ...DEFAULT_POPUP_OPTIONS, ...options };
+    const { x, y, width, height } = getPopupGeometry(options);
+    const features =
+      isMobileDevice() && mobileTarget === "tab"
+        ? undefined
+        : `width=${width}, height=${height}, top=${y}, left=${x}`;
+    const popup = window.open(url, windowName, features) as Window;
     return {
       popup,
       url,
@@ -184,7 +600,7 @@ export class WindowCommunicator {
   async setupHandshakeWithWindowParams(
     windowOpenParams: WindowOpenParams,
     windowCallbacks: WindowCallbacks,
-    endSignals: string[]
+    endSignals: IncomingMessageType[]
   ): Promise<{ post: PostFn; close: CloseFn }> {
     const {
       popup,
@@ -0,0 +1,228 @@
+import {
+  ComputeBudgetProgram,
+  Keypair,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type Connection,
+  type TransactionInstruction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyComputeBudget,
+  splitComputeBudgetOptions,
+} from "../src/computeBudget";
+
+const payer = Keypair.generate();
+const nonceAccount = Keypair.generate().publicKey;
+
+function transfer() {
+  return SystemProgram.transfer({
+    fromPubkey: payer.publicKey,
+    toPubkey: Keypair.generate().publicKey,
+    lamports: 1,
+  });
+}
+
+function legacy(...instructions: TransactionInstruction[]) {
+  return new Transaction({
+    feePayer: payer.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(...instructions);
+}
+
+function v0(...instructions: TransactionInstruction[]) {
+  return new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions,
+    }).compileToV0Message()
+  );
+}
+
+function mockConnection({
+  fees = [] as number[],
+  unitsConsumed = 10_000,
+} = {}) {
+  return {
+    getRecentPrioritizationFees: vi.fn(async () =>
+      fees.map((prioritizationFee) => ({ slot: 1, prioritizationFee }))
+    ),
+    simulateTransaction: vi.fn(async () => ({
+      context: { slot: 1 },
+      value: { err: null, logs: [], unitsConsumed },
+    })),
+  } as unknown as Connection;
+}
+
+function programs(instructions: TransactionInstruction[]) {
+  return instructions.map(({ programId, data }) =>
+    programId.equals(ComputeBudgetProgram.programId)
+      ? `compute budget ${data[0]}`
+      : programId.toBase58()
+  );
+}
+
+function instructionsOf(transaction: VersionedTransaction) {
+  return TransactionMessage.decompile(transaction.message).instructions;
+}
+
+const SYSTEM = SystemProgram.programId.toBase58();
+
+describe("applyComputeBudget", () => {
+  it("adds the limit and price to a legacy transaction in place", async () => {
+    const transaction = legacy(transfer());
+
+    const result = await applyComputeBudget(mockConnection(), transaction, {
+      priorityFee: 5_000,
+      computeUnitLimit: 200_000,
+    });
+
+    expect(result).toBe(transaction);
+    expect(programs(result.instructions)).toEqual([
+      "compute budget 2",
+      "compute budget 3",
+      SYSTEM,
+    ]);
+  });
+
+  it("recompiles a v0 transaction with the instructions added", async () => {
+    const transaction = v0(transfer());
+
+    const result = await applyComputeBudget(mockConnection(), transaction, {
+      priorityFee: 5_000,
+      computeUnitLimit: 200_000,
+    });
+
+    expect(result).not.toBe(transaction);
+    expect(result.version).toBe(0);
+    expect(result.message.recentBlockhash).toBe(
+      transaction.message.recentBlockhash
+    );
+    expect(programs(instructionsOf(result))).toEqual([
+      "compute budget 2",
+      "compute budget 3",
+      SYSTEM,
+    ]);
+  });
+
+  it("keeps AdvanceNonceAccount as the first instruction", async () => {
+    const transaction = legacy(
+      SystemProgram.nonceAdvance({
+        noncePubkey: nonceAccount,
+        authorizedPubkey: payer.publicKey,
+      }),
+      transfer()
+    );
+
+    await applyComputeBudget(mockConnection(), transaction, {
+      priorityFee: 5_000,
+    });
+
+    expect(programs(transaction.instructions)).toEqual([
+      SYSTEM,
+      "compute budget 3",
+      SYSTEM,
+    ]);
+  });
+
+  it("doesn't add instructions the transaction already has", async () => {
+    const transaction = legacy(
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+      transfer()
+    );
+
+    await applyComputeBudget(mockConnection(), transaction, {
+      priorityFee: 5_000,
+      computeUnitLimit: 200_000,
+    });
+
+    expect(programs(transaction.instructions)).toEqual([
+      "compute budget 2",
+      "compute budget 3",
+      SYSTEM,
+    ]);
+    expect(transaction.instructions).toHaveLength(3);
+  });
+
+  it("returns signed transactions unchanged", async () => {
+    const connection = mockConnection();
+    const signedLegacy = legacy(transfer());
+    signedLegacy.sign(payer);
+    const signedV0 = v0(transfer());
+    signedV0.sign([payer]);
+    const serialized = Buffer.from(signedV0.serialize());
+
+    for (const transaction of [signedLegacy, signedV0]) {
+      const result = await applyComputeBudget(connection, transaction, {
+        priorityFee: 5_000,
+        computeUnitLimit: "simulate",
+      });
+      expect(result).toBe(transaction);
+    }
+
+    expect(signedLegacy.instructions).toHaveLength(1);
+    expect(signedLegacy.verifySignatures()).toBe(true);
+    expect(Buffer.from(signedV0.serialize())).toEqual(serialized);
+    expect(connection.simulateTransaction).not.toHaveBeenCalled();
+  });
+
+  it("sets the limit from simulation plus the margin", async () => {
+    const transaction = legacy(transfer());
+
+    await applyComputeBudget(
+      mockConnection({ unitsConsumed: 10_000 }),
+      transaction,
+      { computeUnitLimit: "simulate", computeUnitMargin: 0.5 }
+    );
+
+    expect(transaction.instructions[0].data).toEqual(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: 15_000 }).data
+    );
+  });
+
+  it("estimates the price from recent fees", async () => {
+    const transaction = legacy(transfer());
+
+    await applyComputeBudget(
+      mockConnection({ fees: [400, 100, 300, 200] }),
+      transaction,
+      { priorityFee: { percentile: 75, maxMicroLamports: 250 } }
+    );
+
+    expect(transaction.instructions[0].data).toEqual(
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 250 }).data
+    );
+  });
+
+  it("leaves the transaction alone without options", async () => {
+    const transaction = legacy(transfer());
+
+    expect(await applyComputeBudget(mockConnection(), transaction, {})).toBe(
+      transaction
+    );
+    expect(transaction.instructions).toHaveLength(1);
+  });
+});
+
+describe("splitComputeBudgetOptions", () => {
+  it("separates the compute budget from the send options", () => {
+    expect(
+      splitComputeBudgetOptions({
+        priorityFee: 1,
+        computeUnitLimit: "simulate",
+        skipPreflight: true,
+      })
+    ).toEqual([
+      {
+        priorityFee: 1,
+        computeUnitLimit: "simulate",
+        computeUnitMargin: undefined,
+      },
+      { skipPreflight: true },
+    ]);
+  });
+});
@@ -0,0 +1,264 @@
+import { WalletSendTransactionError } from "@solana/wallet-adapter-base";
+import {
+  Keypair,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type Connection,
+  type SignatureStatus,
+} from "@solana/web3.js";
+import { describe, expect, it, vi } from "vitest";
+import {
+  sendWithRebroadcast,
+  type ConfirmationProgress,
+} from "../src/confirmation";
+import { HyperLinkRequestAbortedError } from "../src/errors";
+
+const payer = Keypair.generate();
+const nonceAccount = Keypair.generate().publicKey;
+
+function signedTransfer({ durableNonce = false } = {}) {
+  const recentBlockhash = Keypair.generate().publicKey.toBase58();
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash,
+      instructions: [
+        ...(durableNonce
+          ? [
+              SystemProgram.nonceAdvance({
+                noncePubkey: nonceAccount,
+                authorizedPubkey: payer.publicKey,
+              }),
+            ]
+          : []),
+        SystemProgram.transfer({
+          fromPubkey: payer.publicKey,
+          toPubkey: Keypair.generate().publicKey,
+          lamports: 1,
+        }),
+      ],
+    }).compileToV0Message()
+  );
+  transaction.sign([payer]);
+  return { rawTransaction: transaction.serialize(), recentBlockhash };
+}
+
+type Status = Partial<SignatureStatus> | null | Error;
+
+// answers each getSignatureStatuses call with the next status, then repeats the
+// last one
+function mockConnection(statuses: Status[], overrides = {}) {
+  const queue = [...statuses];
+  const next = () => (queue.length > 1 ? queue.shift() : queue[0]);
+  return {
+    sendRawTransaction: vi.fn(async () => "signature"),
+    getSignatureStatuses: vi.fn(async () => {
+      const status = next();
+      if (status instanceof Error) throw status;
+      return {
+        context: { slot: 1 },
+        value: [
+          status ? { slot: 10, confirmations: 0, err: null, ...status } : null,
+        ],
+      };
+    }),
+    getBlockHeight: vi.fn(async () => 100),
+    isBlockhashValid: vi.fn(async () => ({
+      context: { slot: 1 },
+      value: true,
+    })),
+    getNonce: vi.fn(),
+    ...overrides,
+  };
+}
+
+const options = { rebroadcastIntervalMs: 1 };
+
+describe("sendWithRebroadcast", () => {
+  it("resends until the transaction is confirmed", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([
+      null,
+      null,
+      { confirmationStatus: "processed" },
+      { confirmationStatus: "confirmed" },
+    ]);
+    const progress: ConfirmationProgress["type"][] = [];
+    const result = await sendWithRebroadcast(
+      connection as unknown as Connection,
+      rawTransaction,
+      { ...options, onProgress: ({ type }) => progress.push(type) }
+    );
+    expect(result).toEqual({
+      status: "confirmed",
+      signature: "signature",
+      slot: 10,
+    });
+    expect(progress).toEqual([
+      "sent",
+      "sent",
+      "sent",
+      "processed",
+      "confirmed",
+    ]);
+    expect(connection.sendRawTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it("reports a transaction that landed but failed", async () => {
+    const { rawTransaction } = signedTransfer();
+    const error = { InstructionError: [0, "Custom"] };
+    const connection = mockConnection([{ err: error as never }]);
+    await expect(
+      sendWithRebroadcast(
+        connection as unknown as Connection,
+        rawTransaction,
+        options
+      )
+    ).resolves.toMatchObject({ status: "failed", error });
+  });
+
+  it("expires once the block height passes lastValidBlockHeight", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([null], {
+      getBlockHeight: vi.fn(async () => 151),
+    });
+    await expect(
+      sendWithRebroadcast(connection as unknown as Connection, rawTransaction, {
+        ...options,
+        lastValidBlockHeight: 150,
+      })
+    ).resolves.toEqual({
+      status: "expired",
+      signature: "signature",
+      lastValidBlockHeight: 150,
+    });
+  });
+
+  it("polls the blockhash when lastValidBlockHeight is unknown", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([null], {
+      isBlockhashValid: vi.fn(async () => ({
+        context: { slot: 1 },
+        value: false,
+      })),
+    });
+    await expect(
+      sendWithRebroadcast(
+        connection as unknown as Connection,
+        rawTransaction,
+        options
+      )
+    ).resolves.toMatchObject({ status: "expired" });
+  });
+
+  it("expires a durable nonce transaction once its nonce is advanced", async () => {
+    const { rawTransaction, recentBlockhash } = signedTransfer({
+      durableNonce: true,
+    });
+    const nonces = [recentBlockhash, "advanced"];
+    const connection = mockConnection([null], {
+      getNonce: vi.fn(async () => ({ nonce: nonces.shift() })),
+    });
+    await expect(
+      sendWithRebroadcast(connection as unknown as Connection, rawTransaction, {
+        ...options,
+        lastValidBlockHeight: 150,
+      })
+    ).resolves.toMatchObject({
+      status: "expired",
+      lastValidBlockHeight: undefined,
+    });
+    expect(connection.getNonce).toHaveBeenCalledTimes(2);
+    expect(connection.getBlockHeight).not.toHaveBeenCalled();
+  });
+
+  it("keeps polling through RPC errors", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([
+      new Error("fetch failed"),
+      null,
+      new Error("429 Too Many Requests"),
+      { confirmationStatus: "confirmed" },
+    ]);
+    connection.isBlockhashValid
+      .mockRejectedValueOnce(new Error("fetch failed"))
+      .mockResolvedValue({ context: { slot: 1 }, value: true });
+    await expect(
+      sendWithRebroadcast(
+        connection as unknown as Connection,
+        rawTransaction,
+        options
+      )
+    ).resolves.toMatchObject({ status: "confirmed" });
+  });
+
+  it("rejects with WalletSendTransactionError only if the first send fails", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([null]);
+    connection.sendRawTransaction.mockRejectedValueOnce(
+      new Error("Blockhash not found")
+    );
+    await expect(
+      sendWithRebroadcast(
+        connection as unknown as Connection,
+        rawTransaction,
+        options
+      )
+    ).rejects.toBeInstanceOf(WalletSendTransactionError);
+  });
+
+  it("ignores failed resends", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([
+      null,
+      null,
+      { confirmationStatus: "finalized" },
+    ]);
+    connection.sendRawTransaction
+      .mockResolvedValueOnce("signature")
+      .mockRejectedValue(new Error("already processed"));
+    await expect(
+      sendWithRebroadcast(connection as unknown as Connection, rawTransaction, {
+        ...options,
+        commitment: "finalized",
+      })
+    ).resolves.toMatchObject({ status: "confirmed" });
+  });
+
+  it("gives up after confirmationTimeoutMs when the RPC keeps failing", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([new Error("fetch failed")]);
+    await expect(
+      sendWithRebroadcast(connection as unknown as Connection, rawTransaction, {
+        ...options,
+        confirmationTimeoutMs: 20,
+      })
+    ).resolves.toEqual({ status: "unconfirmed", signature: "signature" });
+    expect(connection.getSignatureStatuses).toHaveBeenCalled();
+  });
+
+  it("gives up on a transaction stuck below the commitment", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([{ confirmationStatus: "processed" }]);
+    await expect(
+      sendWithRebroadcast(connection as unknown as Connection, rawTransaction, {
+        ...options,
+        confirmationTimeoutMs: 20,
+      })
+    ).resolves.toMatchObject({ status: "unconfirmed" });
+  });
+
+  it("rejects with HyperLinkRequestAbortedError when aborted", async () => {
+    const { rawTransaction } = signedTransfer();
+    const connection = mockConnection([null]);
+    const controller = new AbortController();
+    const result = sendWithRebroadcast(
+      connection as unknown as Connection,
+      rawTransaction,
+      { rebroadcastIntervalMs: 60_000, signal: controller.signal }
+    );
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(HyperLinkRequestAbortedError);
+  });
+});
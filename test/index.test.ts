@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HyperLinkWalletAdapter } from "../src/index";
+import { HyperLinkHostSimulator } from "../src/simulator";
+
+type AdapterConfig = ConstructorParameters<typeof HyperLinkWalletAdapter>[0];
+
+function createAdapter(
+  config: Partial<AdapterConfig> = {},
+  Adapter = HyperLinkWalletAdapter
+) {
+  const host = new HyperLinkHostSimulator();
+  const adapter = new Adapter({
+    title: "Test dApp",
+    clientId: "test",
+    theme: "light",
+    transport: host,
+    logger: { level: "error" },
+    ...config,
+  });
+  return { host, adapter };
+}
+
+describe("HyperLinkWalletAdapter", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = "";
+  });
+
+  it("refuses to connect in an in-app browser and says so", async () => {
+    vi.spyOn(navigator, "userAgent", "get").mockReturnValue(
+      "Mozilla/5.0 (Linux; Android 14; wv) AppleWebKit/537.36 Chrome/120.0 Mobile"
+    );
+    // the adapter caches what it makes of the user agent, start fresh
+    vi.resetModules();
+    const { HyperLinkWalletAdapter } = await import("../src/index");
+    const { HyperLinkUnsupportedBrowserError } = await import("../src/errors");
+    const { host, adapter } = createAdapter({}, HyperLinkWalletAdapter);
+
+    await expect(adapter.connect()).rejects.toBeInstanceOf(
+      HyperLinkUnsupportedBrowserError
+    );
+
+    const closeIcon = document.querySelector<HTMLImageElement>(
+      "#hyperLinkAlert__close-btn-image"
+    );
+    expect(closeIcon?.src).toBe(
+      new URL("adapter-popup-close-icon.svg", host.origin).toString()
+    );
+  });
+
+  it("signs sign-in inputs as given unless signInDefaults is set", async () => {
+    vi.spyOn(window, "open").mockReturnValue(null);
+    const { host, adapter } = createAdapter();
+    await adapter.connect();
+
+    const output = await adapter.signIn({ domain: "dapp.example" });
+    await adapter.disconnect();
+
+    expect(output.input).toEqual({
+      domain: "dapp.example",
+      address: host.publicKey,
+    });
+  });
+
+  it("fills in sign-in fields when signInDefaults is set", async () => {
+    vi.spyOn(window, "open").mockReturnValue(null);
+    const { adapter } = createAdapter({ signInDefaults: {} });
+    await adapter.connect();
+
+    const output = await adapter.signIn({ domain: "dapp.example" });
+    await adapter.disconnect();
+
+    expect(output.input).toMatchObject({
+      domain: "dapp.example",
+      nonce: expect.any(String),
+      issuedAt: expect.any(String),
+      expirationTime: expect.any(String),
+      uri: window.location.origin,
+      version: "1",
+    });
+  });
+});
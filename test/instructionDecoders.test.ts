@@ -0,0 +1,196 @@
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  AddressLookupTableAccount,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { describe, expect, it } from "vitest";
+import { InstructionDecoderRegistry } from "../src/instructionDecoders";
+
+const TOKEN_PROGRAM = new PublicKey(
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+const user = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+
+function tokenTransfer(amount: bigint) {
+  const source = Keypair.generate().publicKey;
+  const destination = Keypair.generate().publicKey;
+  const data = Buffer.alloc(9);
+  data[0] = 3;
+  data.writeBigUInt64LE(amount, 1);
+  return {
+    source,
+    destination,
+    instruction: new TransactionInstruction({
+      programId: TOKEN_PROGRAM,
+      keys: [
+        { pubkey: source, isSigner: false, isWritable: true },
+        { pubkey: destination, isSigner: false, isWritable: true },
+        { pubkey: user, isSigner: true, isWritable: false },
+      ],
+      data,
+    }),
+  };
+}
+
+describe("InstructionDecoderRegistry", () => {
+  const registry = new InstructionDecoderRegistry();
+
+  it("decodes a System transfer", () => {
+    const summary = registry.summarizeInstruction(
+      SystemProgram.transfer({
+        fromPubkey: user,
+        toPubkey: recipient,
+        lamports: 1_500_000,
+      })
+    );
+
+    expect(summary).toMatchObject({
+      programId: SystemProgram.programId.toBase58(),
+      program: "System Program",
+      type: "transfer",
+      params: {
+        fromPubkey: user.toBase58(),
+        toPubkey: recipient.toBase58(),
+        lamports: "1500000",
+      },
+      data: undefined,
+    });
+  });
+
+  it("decodes an SPL token transfer", () => {
+    const { source, destination, instruction } =
+      tokenTransfer(18_446_744_073_709_551_615n);
+
+    expect(registry.summarizeInstruction(instruction)).toMatchObject({
+      program: "Token Program",
+      type: "transfer",
+      params: {
+        source: source.toBase58(),
+        destination: destination.toBase58(),
+        owner: user.toBase58(),
+        amount: "18446744073709551615",
+      },
+      data: undefined,
+    });
+  });
+
+  it("falls back to the raw data for unknown programs", () => {
+    const programId = Keypair.generate().publicKey;
+    const instruction = new TransactionInstruction({
+      programId,
+      keys: [{ pubkey: user, isSigner: true, isWritable: true }],
+      data: Buffer.from([1, 2, 3]),
+    });
+
+    expect(registry.summarizeInstruction(instruction)).toEqual({
+      programId: programId.toBase58(),
+      program: undefined,
+      type: undefined,
+      params: {},
+      accounts: [
+        { address: user.toBase58(), isSigner: true, isWritable: true },
+      ],
+      data: "AQID",
+    });
+  });
+
+  it("falls back to the raw data for instructions a decoder doesn't know", () => {
+    const instruction = new TransactionInstruction({
+      programId: TOKEN_PROGRAM,
+      keys: [],
+      data: Buffer.from([200]),
+    });
+
+    expect(registry.summarizeInstruction(instruction)).toMatchObject({
+      program: "Token Program",
+      type: undefined,
+      data: "yA==",
+    });
+  });
+
+  it("uses registered decoders until they're removed", () => {
+    const programId = Keypair.generate().publicKey;
+    const instruction = new TransactionInstruction({
+      programId,
+      keys: [],
+      data: Buffer.from([7]),
+    });
+    const local = new InstructionDecoderRegistry();
+    const unregister = local.register({
+      name: "Counter",
+      programIds: [programId],
+      decode: ({ data }) => ({ type: "increment", params: { by: data[0] } }),
+    });
+
+    expect(local.summarizeInstruction(instruction)).toMatchObject({
+      program: "Counter",
+      type: "increment",
+      params: { by: 7 },
+    });
+    unregister();
+    expect(local.summarizeInstruction(instruction).type).toBeUndefined();
+  });
+
+  it("summarizes legacy transactions", async () => {
+    const transaction = new Transaction({
+      feePayer: user,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: user,
+        toPubkey: recipient,
+        lamports: 1,
+      })
+    );
+
+    const summary = await registry.summarizeTransaction(transaction);
+
+    expect(summary.version).toBe("legacy");
+    expect(summary.lookupTablesResolved).toBe(true);
+    expect(summary.instructions.map(({ type }) => type)).toEqual(["transfer"]);
+  });
+
+  it("leaves lookup table accounts unresolved without a connection", async () => {
+    const table = new AddressLookupTableAccount({
+      key: Keypair.generate().publicKey,
+      state: {
+        deactivationSlot: BigInt("18446744073709551615"),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        addresses: [recipient],
+      },
+    });
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: user,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [
+          SystemProgram.transfer({
+            fromPubkey: user,
+            toPubkey: recipient,
+            lamports: 1,
+          }),
+        ],
+      }).compileToV0Message([table])
+    );
+
+    const summary = await registry.summarizeTransaction(transaction);
+
+    expect(summary.lookupTablesResolved).toBe(false);
+    expect(summary.instructions[0]).toMatchObject({
+      program: "System Program",
+      type: undefined,
+      accounts: [
+        { address: user.toBase58(), isSigner: true, isWritable: true },
+        { address: null, isSigner: false, isWritable: true },
+      ],
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  Keypair,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  type Connection,
+  type PublicKey,
+} from "@solana/web3.js";
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildDurableNonceTransaction,
+  getDurableNonceAccount,
+  isDurableNonceTransaction,
+  setDurableNonceBlockhash,
+} from "../src/nonce";
+
+const user = Keypair.generate().publicKey;
+const nonceAccount = Keypair.generate().publicKey;
+const nonce = Keypair.generate().publicKey.toBase58();
+
+function advanceNonce() {
+  return SystemProgram.nonceAdvance({
+    noncePubkey: nonceAccount,
+    authorizedPubkey: user,
+  });
+}
+
+function transfer() {
+  return SystemProgram.transfer({
+    fromPubkey: user,
+    toPubkey: Keypair.generate().publicKey,
+    lamports: 1,
+  });
+}
+
+function mockConnection(account: PublicKey = nonceAccount) {
+  return {
+    getNonce: vi.fn(async (pubkey: PublicKey) =>
+      pubkey.equals(account)
+        ? { authorizedPubkey: user, nonce, feeCalculator: {} }
+        : null
+    ),
+  } as unknown as Connection;
+}
+
+describe("getDurableNonceAccount", () => {
+  it("finds the nonce account of a legacy durable nonce transaction", () => {
+    const transaction = new Transaction().add(advanceNonce(), transfer());
+
+    expect(getDurableNonceAccount(transaction)?.equals(nonceAccount)).toBe(
+      true
+    );
+    expect(isDurableNonceTransaction(transaction)).toBe(true);
+  });
+
+  it("finds the nonce account of a v0 durable nonce transaction", () => {
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: user,
+        recentBlockhash: nonce,
+        instructions: [advanceNonce(), transfer()],
+      }).compileToV0Message()
+    );
+
+    expect(getDurableNonceAccount(transaction)?.equals(nonceAccount)).toBe(
+      true
+    );
+  });
+
+  it("only counts AdvanceNonceAccount as the first instruction", () => {
+    const transaction = new Transaction().add(transfer(), advanceNonce());
+
+    expect(getDurableNonceAccount(transaction)).toBeUndefined();
+    expect(isDurableNonceTransaction(new Transaction().add(transfer()))).toBe(
+      false
+    );
+  });
+});
+
+describe("setDurableNonceBlockhash", () => {
+  it("uses the current nonce as the blockhash", async () => {
+    const transaction = new Transaction({ feePayer: user }).add(
+      advanceNonce(),
+      transfer()
+    );
+
+    await setDurableNonceBlockhash(mockConnection(), transaction);
+
+    expect(transaction.recentBlockhash).toBe(nonce);
+  });
+
+  it("keeps a blockhash that's already set", async () => {
+    const connection = mockConnection();
+    const transaction = new Transaction({
+      feePayer: user,
+      recentBlockhash: "signedWithThisNonce",
+    }).add(advanceNonce(), transfer());
+
+    await setDurableNonceBlockhash(connection, transaction);
+
+    expect(transaction.recentBlockhash).toBe("signedWithThisNonce");
+    expect(connection.getNonce).not.toHaveBeenCalled();
+  });
+
+  it("leaves other transactions for prepareTransaction", async () => {
+    const connection = mockConnection();
+    const transaction = new Transaction({ feePayer: user }).add(transfer());
+
+    await setDurableNonceBlockhash(connection, transaction);
+
+    expect(transaction.recentBlockhash).toBeUndefined();
+    expect(connection.getNonce).not.toHaveBeenCalled();
+  });
+
+  it("throws when the account isn't a nonce account", async () => {
+    const transaction = new Transaction({ feePayer: user }).add(
+      advanceNonce(),
+      transfer()
+    );
+
+    await expect(
+      setDurableNonceBlockhash(
+        mockConnection(Keypair.generate().publicKey),
+        transaction
+      )
+    ).rejects.toThrow(`${nonceAccount.toBase58()} is not a nonce account`);
+  });
+});
+
+describe("buildDurableNonceTransaction", () => {
+  it("advances the nonce first and uses it as the blockhash", async () => {
+    const instruction = transfer();
+
+    const transaction = await buildDurableNonceTransaction(mockConnection(), {
+      nonceAccount,
+      nonceAuthority: user,
+      feePayer: user,
+      instructions: [instruction],
+    });
+
+    expect(transaction.recentBlockhash).toBe(nonce);
+    expect(transaction.instructions[1]).toBe(instruction);
+    expect(getDurableNonceAccount(transaction)?.equals(nonceAccount)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  Keypair,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import {
+  decodeOffchainMessage,
+  detectMessageFormat,
+  encodeOffchainMessage,
+  isOffchainMessage,
+  isTransactionBytes,
+  OFFCHAIN_MESSAGE_FORMAT,
+  OFFCHAIN_MESSAGE_SIGNING_DOMAIN,
+} from "../src/offchainMessage";
+
+const payer = Keypair.generate().publicKey;
+
+function transferMessage() {
+  return new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [
+      SystemProgram.transfer({
+        fromPubkey: payer,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1,
+      }),
+    ],
+  }).compileToV0Message();
+}
+
+describe("encodeOffchainMessage", () => {
+  it("round trips and picks the most restrictive format", () => {
+    const ascii = encodeOffchainMessage("hello");
+    expect(ascii.subarray(0, OFFCHAIN_MESSAGE_SIGNING_DOMAIN.length)).toEqual(
+      OFFCHAIN_MESSAGE_SIGNING_DOMAIN
+    );
+    expect(decodeOffchainMessage(ascii)).toEqual({
+      version: 0,
+      format: OFFCHAIN_MESSAGE_FORMAT.RESTRICTED_ASCII,
+      message: new TextEncoder().encode("hello"),
+    });
+    expect(decodeOffchainMessage(encodeOffchainMessage("héllo")).format).toBe(
+      OFFCHAIN_MESSAGE_FORMAT.LIMITED_UTF8
+    );
+    expect(
+      decodeOffchainMessage(encodeOffchainMessage("a".repeat(2_000))).format
+    ).toBe(OFFCHAIN_MESSAGE_FORMAT.EXTENDED_UTF8);
+  });
+
+  it("refuses empty and non UTF-8 messages", () => {
+    expect(() => encodeOffchainMessage("")).toThrow("empty");
+    expect(() => encodeOffchainMessage(new Uint8Array([0xff, 0xfe]))).toThrow(
+      "UTF-8"
+    );
+  });
+});
+
+describe("decodeOffchainMessage", () => {
+  it("rejects a length that doesn't match the header", () => {
+    const encoded = encodeOffchainMessage("hello");
+    expect(() => decodeOffchainMessage(encoded.subarray(0, -1))).toThrow(
+      "length"
+    );
+  });
+
+  it("rejects a format that doesn't match the message", () => {
+    const encoded = encodeOffchainMessage("héllo");
+    encoded[OFFCHAIN_MESSAGE_SIGNING_DOMAIN.length + 1] =
+      OFFCHAIN_MESSAGE_FORMAT.RESTRICTED_ASCII;
+    expect(isOffchainMessage(encoded)).toBe(false);
+  });
+});
+
+describe("isTransactionBytes", () => {
+  it("detects serialized transactions and messages", () => {
+    const message = transferMessage();
+    expect(isTransactionBytes(message.serialize())).toBe(true);
+    expect(
+      isTransactionBytes(new VersionedTransaction(message).serialize())
+    ).toBe(true);
+  });
+
+  it("lets text and off-chain messages through", () => {
+    expect(isTransactionBytes(new TextEncoder().encode("Sign in"))).toBe(false);
+    expect(isTransactionBytes(encodeOffchainMessage("Sign in"))).toBe(false);
+  });
+});
+
+describe("detectMessageFormat", () => {
+  it("tells off-chain, UTF-8 and binary messages apart", () => {
+    expect(detectMessageFormat(encodeOffchainMessage("hi"))).toBe("offchain");
+    expect(detectMessageFormat(new TextEncoder().encode("hi"))).toBe("utf8");
+    expect(detectMessageFormat(new Uint8Array([0xff, 0x00]))).toBe("binary");
+  });
+});
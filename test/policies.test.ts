@@ -0,0 +1,221 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type Connection,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { describe, expect, it, vi } from "vitest";
+import { HyperLinkPolicyError } from "../src/errors";
+import {
+  allowProgramsPolicy,
+  denyTokenInstructionsPolicy,
+  enforcePolicies,
+  maxSolOutflowPolicy,
+  TOKEN_INSTRUCTION,
+} from "../src/policies";
+
+const TOKEN_PROGRAM = new PublicKey(
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+const user = Keypair.generate().publicKey;
+const recipient = Keypair.generate().publicKey;
+
+function legacy(...instructions: TransactionInstruction[]) {
+  return new Transaction({
+    feePayer: user,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(...instructions);
+}
+
+function transfer(lamports: number, fromPubkey = user) {
+  return SystemProgram.transfer({ fromPubkey, toPubkey: recipient, lamports });
+}
+
+function tokenInstruction(discriminator: number) {
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM,
+    keys: [
+      {
+        pubkey: Keypair.generate().publicKey,
+        isSigner: false,
+        isWritable: true,
+      },
+      { pubkey: user, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.from([discriminator, 0, 0, 0, 0, 0, 0, 0, 0]),
+  });
+}
+
+// a transfer to a recipient that only appears in a lookup table
+function transferThroughLookupTable() {
+  const table = new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt("18446744073709551615"),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses: [recipient],
+    },
+  });
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: user,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [transfer(5)],
+    }).compileToV0Message([table])
+  );
+  return { table, transaction };
+}
+
+async function rejection(promise: Promise<unknown>) {
+  const error = await promise.catch((error) => error);
+  expect(error).toBeInstanceOf(HyperLinkPolicyError);
+  return error as HyperLinkPolicyError;
+}
+
+describe("enforcePolicies", () => {
+  it("lets through a transaction every policy allows", async () => {
+    await expect(
+      enforcePolicies(
+        [
+          allowProgramsPolicy([SystemProgram.programId]),
+          maxSolOutflowPolicy(1_000),
+          denyTokenInstructionsPolicy(),
+        ],
+        legacy(
+          ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+          transfer(1_000)
+        ),
+        user
+      )
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects with the first policy that objects", async () => {
+    const error = await rejection(
+      enforcePolicies(
+        [
+          { name: "first", check: () => undefined },
+          { name: "second", check: async () => "no thanks" },
+          { name: "third", check: () => "never asked" },
+        ],
+        legacy(transfer(1)),
+        user
+      )
+    );
+    expect(error.policy).toBe("second");
+    expect(error.reason).toBe("no thanks");
+  });
+
+  it("fails closed on lookup tables it can't load without a connection", async () => {
+    const { transaction } = transferThroughLookupTable();
+    const check = vi.fn(() => undefined);
+
+    const error = await rejection(
+      enforcePolicies([{ name: "anything", check }], transaction, user)
+    );
+
+    expect(error.policy).toBe("address_lookup_tables");
+    expect(check).not.toHaveBeenCalled();
+  });
+
+  it("resolves lookup table accounts before checking", async () => {
+    const { table, transaction } = transferThroughLookupTable();
+    const connection = {
+      getAddressLookupTable: vi.fn(async () => ({
+        context: { slot: 1 },
+        value: table,
+      })),
+    } as unknown as Connection;
+    const check = vi.fn(() => undefined);
+
+    await enforcePolicies(
+      [{ name: "spy", check }],
+      transaction,
+      user,
+      connection
+    );
+
+    const [{ instructions }] = check.mock.calls[0] as unknown as [
+      { instructions: TransactionInstruction[] },
+    ];
+    expect(instructions[0].keys[1].pubkey.equals(recipient)).toBe(true);
+  });
+
+  it("skips everything when there are no policies", async () => {
+    const { transaction } = transferThroughLookupTable();
+    await expect(
+      enforcePolicies([], transaction, user)
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("allowProgramsPolicy", () => {
+  it("denies programs that aren't listed", async () => {
+    const error = await rejection(
+      enforcePolicies(
+        [allowProgramsPolicy([SystemProgram.programId])],
+        legacy(transfer(1), tokenInstruction(3)),
+        user
+      )
+    );
+    expect(error.reason).toBe(
+      `program ${TOKEN_PROGRAM.toBase58()} is not allowed`
+    );
+  });
+});
+
+describe("maxSolOutflowPolicy", () => {
+  it("adds up what the user sends", async () => {
+    const error = await rejection(
+      enforcePolicies(
+        [maxSolOutflowPolicy(1_000)],
+        legacy(transfer(600), transfer(600)),
+        user
+      )
+    );
+    expect(error.reason).toBe(
+      "sends 1200 lamports, more than the 1000 allowed"
+    );
+  });
+
+  it("ignores transfers from other accounts", async () => {
+    await expect(
+      enforcePolicies(
+        [maxSolOutflowPolicy(1_000)],
+        legacy(transfer(5_000, Keypair.generate().publicKey)),
+        user
+      )
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("denyTokenInstructionsPolicy", () => {
+  it("denies delegations by default", async () => {
+    const error = await rejection(
+      enforcePolicies(
+        [denyTokenInstructionsPolicy()],
+        legacy(tokenInstruction(TOKEN_INSTRUCTION.APPROVE)),
+        user
+      )
+    );
+    expect(error.reason).toBe("token instruction 4 is not allowed");
+  });
+
+  it("allows token transfers", async () => {
+    await expect(
+      enforcePolicies(
+        [denyTokenInstructionsPolicy()],
+        legacy(tokenInstruction(3)),
+        user
+      )
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createEnvelope, REPLAY_WINDOW_MS, ReplayGuard } from "../src/replay";
+
+const session = { dAppSessionId: "dapp", hyperLinkSessionId: "hyperlink" };
+
+describe("ReplayGuard", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("accepts a fresh envelope once", () => {
+    const guard = new ReplayGuard();
+    const envelope = createEnvelope(session);
+    expect(guard.accept(envelope, session)).toBe(true);
+    expect(guard.accept(envelope, session)).toBe(false);
+  });
+
+  it("rejects envelopes without a nonce or timestamp", () => {
+    const guard = new ReplayGuard();
+    const { nonce, timestamp } = createEnvelope(session);
+    expect(guard.accept({ ...session, nonce }, session)).toBe(false);
+    expect(guard.accept({ ...session, timestamp }, session)).toBe(false);
+  });
+
+  it("rejects envelopes outside the replay window", () => {
+    const guard = new ReplayGuard();
+    const stale = {
+      ...createEnvelope(session),
+      timestamp: Date.now() - REPLAY_WINDOW_MS - 1_000,
+    };
+    const future = {
+      ...createEnvelope(session),
+      timestamp: Date.now() + REPLAY_WINDOW_MS + 1_000,
+    };
+    expect(guard.accept(stale, session)).toBe(false);
+    expect(guard.accept(future, session)).toBe(false);
+  });
+
+  it("rejects envelopes from another session", () => {
+    const guard = new ReplayGuard();
+    expect(
+      guard.accept(
+        createEnvelope({ ...session, dAppSessionId: "other" }),
+        session
+      )
+    ).toBe(false);
+    expect(
+      guard.accept(
+        createEnvelope({ ...session, hyperLinkSessionId: "other" }),
+        session
+      )
+    ).toBe(false);
+  });
+
+  it("forgets nonces once they leave the window", () => {
+    vi.useFakeTimers();
+    const guard = new ReplayGuard(1_000);
+    const envelope = createEnvelope(session);
+    expect(guard.accept(envelope, session)).toBe(true);
+    vi.advanceTimersByTime(2_000);
+    // expired now, rather than remembered forever
+    expect(guard.accept(envelope, session)).toBe(false);
+    expect(guard.accept(createEnvelope(session), session)).toBe(true);
+  });
+});
+
+describe("ReplayGuard with requireSession", () => {
+  it("rejects envelopes missing either session id", () => {
+    const guard = new ReplayGuard();
+    expect(
+      guard.accept(createEnvelope({ dAppSessionId: "dapp" }), session, true)
+    ).toBe(false);
+    expect(guard.accept(createEnvelope({}), session, true)).toBe(false);
+    expect(guard.accept(createEnvelope(session), session, true)).toBe(true);
+  });
+
+  it("rejects anything that isn't an envelope", () => {
+    const guard = new ReplayGuard();
+    expect(guard.accept(undefined, session, true)).toBe(false);
+    expect(guard.accept("nonce", session, true)).toBe(false);
+  });
+});
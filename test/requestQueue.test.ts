@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  HyperLinkRequestAbortedError,
+  HyperLinkWalletBusyError,
+} from "../src/errors";
+import { RequestQueue, type RequestQueueState } from "../src/requestQueue";
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe("RequestQueue", () => {
+  it("runs one request at a time, in order", async () => {
+    const queue = new RequestQueue();
+    const order: string[] = [];
+    const first = deferred();
+    const a = queue.enqueue("a", async () => {
+      order.push("a");
+      await first.promise;
+      return "a";
+    });
+    const b = queue.enqueue("b", async () => {
+      order.push("b");
+      return "b";
+    });
+    await Promise.resolve();
+    expect(order).toEqual(["a"]);
+    expect(queue.state.current?.type).toBe("a");
+    expect(queue.state.length).toBe(1);
+    first.resolve();
+    await expect(a).resolves.toBe("a");
+    await expect(b).resolves.toBe("b");
+    expect(order).toEqual(["a", "b"]);
+    expect(queue.state).toEqual({ length: 0, current: undefined });
+  });
+
+  it("runs higher priorities first, FIFO within a priority", async () => {
+    const queue = new RequestQueue();
+    const order: string[] = [];
+    const blocker = deferred();
+    const run = (type: string) => async () => {
+      order.push(type);
+    };
+    const all = [
+      queue.enqueue("blocker", () => blocker.promise),
+      queue.enqueue("low", run("low")),
+      queue.enqueue("high1", run("high1"), { priority: 1 }),
+      queue.enqueue("high2", run("high2"), { priority: 1 }),
+    ];
+    blocker.resolve();
+    await Promise.all(all);
+    expect(order).toEqual(["high1", "high2", "low"]);
+  });
+
+  it("keeps going after a request fails", async () => {
+    const queue = new RequestQueue();
+    const failed = queue.enqueue("a", () => Promise.reject(new Error("boom")));
+    const next = queue.enqueue("b", async () => "b");
+    await expect(failed).rejects.toThrow("boom");
+    await expect(next).resolves.toBe("b");
+  });
+
+  it("rejects with HyperLinkWalletBusyError when asked not to wait", async () => {
+    const queue = new RequestQueue();
+    const blocker = deferred();
+    const current = queue.enqueue("sign_transaction", () => blocker.promise);
+    await expect(
+      queue.enqueue("sign_message", async () => undefined, {
+        ifBusy: "reject",
+      })
+    ).rejects.toBeInstanceOf(HyperLinkWalletBusyError);
+    blocker.resolve();
+    await current;
+  });
+
+  it("removes aborted requests from the queue", async () => {
+    const queue = new RequestQueue();
+    const blocker = deferred();
+    const current = queue.enqueue("a", () => blocker.promise);
+    const controller = new AbortController();
+    let ran = false;
+    const waiting = queue.enqueue(
+      "b",
+      async () => {
+        ran = true;
+      },
+      { signal: controller.signal }
+    );
+    controller.abort();
+    await expect(waiting).rejects.toBeInstanceOf(HyperLinkRequestAbortedError);
+    expect(queue.state.length).toBe(0);
+    blocker.resolve();
+    await current;
+    expect(ran).toBe(false);
+  });
+
+  it("rejects already aborted requests without queueing them", async () => {
+    const queue = new RequestQueue();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      queue.enqueue("a", async () => undefined, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(HyperLinkRequestAbortedError);
+  });
+
+  it("clear rejects waiting requests but not the current one", async () => {
+    const queue = new RequestQueue();
+    const blocker = deferred<string>();
+    const current = queue.enqueue("a", () => blocker.promise);
+    const waiting = queue.enqueue("b", async () => "b");
+    queue.clear();
+    await expect(waiting).rejects.toBeInstanceOf(HyperLinkRequestAbortedError);
+    blocker.resolve("a");
+    await expect(current).resolves.toBe("a");
+  });
+
+  it("emits the state on every change", async () => {
+    const queue = new RequestQueue();
+    const states: RequestQueueState[] = [];
+    queue.on("change", (state) => states.push(state));
+    await queue.enqueue("a", async () => undefined);
+    // the queue moves on right after the request settles
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(
+      states.map(({ length, current }) => [length, current?.type])
+    ).toEqual([
+      [0, "a"],
+      [0, undefined],
+    ]);
+  });
+});
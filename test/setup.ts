@@ -0,0 +1,3 @@
+// jsdom brings its own Uint8Array, which Buffer and web3.js don't recognize
+// as one. Put Node's back.
+globalThis.Uint8Array = Object.getPrototypeOf(Buffer.prototype).constructor;
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import {
+  applySignInDefaults,
+  generateSignInNonce,
+} from "../src/signInDefaults";
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+describe("generateSignInNonce", () => {
+  it("returns a fresh alphanumeric nonce each time", () => {
+    const nonce = generateSignInNonce();
+
+    expect(nonce).toMatch(/^[a-zA-Z0-9]{8,}$/);
+    expect(generateSignInNonce()).not.toBe(nonce);
+  });
+});
+
+describe("applySignInDefaults", () => {
+  it("fills in the nonce, timestamps, uri and version", async () => {
+    const input = await applySignInDefaults(
+      { domain: "dapp.example" },
+      {},
+      now
+    );
+
+    expect(input).toEqual({
+      domain: "dapp.example",
+      nonce: expect.stringMatching(/^[a-zA-Z0-9]{8,}$/),
+      issuedAt: "2026-01-01T00:00:00.000Z",
+      expirationTime: "2026-01-01T00:10:00.000Z",
+      uri: window.location.origin,
+      version: "1",
+    });
+  });
+
+  it("uses the configured nonce, expiry, uri and version", async () => {
+    const input = await applySignInDefaults(
+      {},
+      {
+        nonce: async () => "backendNonce123",
+        expirationMs: 60_000,
+        uri: "https://dapp.example/login",
+        version: "2",
+      },
+      now
+    );
+
+    expect(input).toMatchObject({
+      nonce: "backendNonce123",
+      expirationTime: "2026-01-01T00:01:00.000Z",
+      uri: "https://dapp.example/login",
+      version: "2",
+    });
+  });
+
+  it("leaves the expiry unset when expirationMs is null", async () => {
+    const input = await applySignInDefaults({}, { expirationMs: null }, now);
+
+    expect(input).not.toHaveProperty("expirationTime");
+  });
+
+  it("counts the expiry from the caller's issuedAt", async () => {
+    const input = await applySignInDefaults(
+      { issuedAt: "2026-02-01T00:00:00.000Z" },
+      {},
+      now
+    );
+
+    expect(input.expirationTime).toBe("2026-02-01T00:10:00.000Z");
+  });
+
+  it("never overwrites fields the caller set", async () => {
+    const given = {
+      domain: "dapp.example",
+      nonce: "callerNonce",
+      issuedAt: "2025-12-31T23:00:00.000Z",
+      expirationTime: "2025-12-31T23:30:00.000Z",
+      uri: "https://caller.example",
+      version: "1",
+      statement: "Sign in",
+    };
+
+    const input = await applySignInDefaults(
+      given,
+      {
+        nonce: () => "defaultNonce",
+        expirationMs: 1,
+        uri: "https://default.example",
+        version: "2",
+      },
+      now
+    );
+
+    expect(input).toEqual(given);
+  });
+});
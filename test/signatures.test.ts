@@ -0,0 +1,143 @@
+import {
+  Keypair,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { describe, expect, it } from "vitest";
+import { HyperLinkInvalidSignatureError } from "../src/errors";
+import {
+  getMissingSigners,
+  getSignerStatuses,
+  isSignedBy,
+  serializePartiallySigned,
+  verifyWalletSignature,
+} from "../src/signatures";
+
+const user = Keypair.generate();
+const coSigner = Keypair.generate();
+
+// a transfer the backend pays for, so both have to sign
+function coSignedTransfer() {
+  return new Transaction({
+    feePayer: coSigner.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(
+    SystemProgram.transfer({
+      fromPubkey: user.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1,
+    })
+  );
+}
+
+function copy(transaction: Transaction) {
+  return Transaction.from(serializePartiallySigned(transaction));
+}
+
+function rejection(check: () => void) {
+  try {
+    check();
+  } catch (error) {
+    expect(error).toBeInstanceOf(HyperLinkInvalidSignatureError);
+    return (error as Error).message;
+  }
+  throw new Error("expected verifyWalletSignature to throw");
+}
+
+describe("getSignerStatuses", () => {
+  it("lists the required signers and which have signed", () => {
+    const transaction = coSignedTransfer();
+    transaction.partialSign(coSigner);
+
+    expect(
+      getSignerStatuses(transaction).map(({ publicKey, signed, valid }) => [
+        publicKey.toBase58(),
+        signed,
+        valid,
+      ])
+    ).toEqual([
+      [coSigner.publicKey.toBase58(), true, true],
+      [user.publicKey.toBase58(), false, false],
+    ]);
+    expect(getMissingSigners(transaction)).toEqual([user.publicKey]);
+    expect(isSignedBy(transaction, coSigner.publicKey)).toBe(true);
+    expect(isSignedBy(transaction, user.publicKey)).toBe(false);
+  });
+
+  it("treats zero-filled v0 signatures as missing", () => {
+    const transaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: coSigner.publicKey,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: coSignedTransfer().instructions,
+      }).compileToV0Message()
+    );
+    transaction.sign([coSigner]);
+
+    expect(getMissingSigners(transaction)).toEqual([user.publicKey]);
+    expect(isSignedBy(transaction, coSigner.publicKey)).toBe(true);
+  });
+});
+
+describe("serializePartiallySigned", () => {
+  it("keeps the missing signatures empty", () => {
+    const transaction = coSignedTransfer();
+    transaction.partialSign(coSigner);
+
+    const restored = Transaction.from(serializePartiallySigned(transaction));
+
+    expect(getMissingSigners(restored)).toEqual([user.publicKey]);
+    expect(isSignedBy(restored, coSigner.publicKey)).toBe(true);
+  });
+});
+
+describe("verifyWalletSignature", () => {
+  it("accepts the wallet's signature next to the co-signer's", () => {
+    const original = coSignedTransfer();
+    original.partialSign(coSigner);
+    const signed = copy(original);
+    signed.partialSign(user);
+
+    expect(() =>
+      verifyWalletSignature(original, signed, user.publicKey)
+    ).not.toThrow();
+  });
+
+  it("rejects a transaction the wallet didn't sign", () => {
+    const original = coSignedTransfer();
+
+    expect(
+      rejection(() =>
+        verifyWalletSignature(original, copy(original), user.publicKey)
+      )
+    ).toBe(
+      `Transaction is missing the signature of ${user.publicKey.toBase58()}`
+    );
+  });
+
+  it("rejects an invalid wallet signature", () => {
+    const original = coSignedTransfer();
+    const signed = copy(original);
+    signed.addSignature(user.publicKey, Buffer.alloc(64, 1));
+
+    expect(
+      rejection(() => verifyWalletSignature(original, signed, user.publicKey))
+    ).toBe(`Transaction signature of ${user.publicKey.toBase58()} is invalid`);
+  });
+
+  it("rejects a transaction that dropped the co-signer's signature", () => {
+    const original = coSignedTransfer();
+    const signed = copy(original);
+    original.partialSign(coSigner);
+    signed.partialSign(user);
+
+    expect(
+      rejection(() => verifyWalletSignature(original, signed, user.publicKey))
+    ).toBe(
+      `Transaction lost the signature of ${coSigner.publicKey.toBase58()}`
+    );
+  });
+});
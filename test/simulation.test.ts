@@ -0,0 +1,160 @@
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type Connection,
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { describe, expect, it, vi } from "vitest";
+import { simulateTransactionPreview } from "../src/simulation";
+
+const TOKEN_PROGRAM = new PublicKey(
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+const owner = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+const tokenAccount = Keypair.generate().publicKey;
+const tableKey = Keypair.generate().publicKey;
+
+function tokenAccountData(amount: bigint) {
+  const data = Buffer.alloc(165);
+  mint.toBuffer().copy(data, 0);
+  owner.toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(amount, 64);
+  return data;
+}
+
+// a transfer out of the user's token account, which only appears in the
+// lookup table
+function transferThroughLookupTable() {
+  const table = new AddressLookupTableAccount({
+    key: tableKey,
+    state: {
+      deactivationSlot: BigInt("18446744073709551615"),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses: [tokenAccount],
+    },
+  });
+  const transaction = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: owner,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [
+        new TransactionInstruction({
+          programId: TOKEN_PROGRAM,
+          keys: [{ pubkey: tokenAccount, isSigner: false, isWritable: true }],
+          data: Buffer.from([3]),
+        }),
+      ],
+    }).compileToV0Message([table])
+  );
+  return { table, transaction };
+}
+
+function mockConnection(table: AddressLookupTableAccount | Error) {
+  const balances = new Map([
+    [owner.toBase58(), { lamports: 1_000_000, after: 995_000 }],
+  ]);
+  const connection = {
+    getAddressLookupTable: vi.fn(async () => {
+      if (table instanceof Error) throw table;
+      return { context: { slot: 1 }, value: table };
+    }),
+    getMultipleAccountsInfoAndContext: vi.fn(async (keys: PublicKey[]) => ({
+      context: { slot: 1 },
+      value: keys.map((key) =>
+        key.equals(tokenAccount)
+          ? {
+              lamports: 2_039_280,
+              owner: TOKEN_PROGRAM,
+              data: tokenAccountData(100n),
+              executable: false,
+            }
+          : {
+              lamports: balances.get(key.toBase58())?.lamports ?? 0,
+              owner: PublicKey.default,
+              data: Buffer.alloc(0),
+              executable: false,
+            }
+      ),
+    })),
+    simulateTransaction: vi.fn(
+      async (
+        _: unknown,
+        { accounts }: { accounts: { addresses: string[] } }
+      ) => ({
+        context: { slot: 1 },
+        value: {
+          err: null,
+          logs: [],
+          unitsConsumed: 1000,
+          accounts: accounts.addresses.map((address) =>
+            address === tokenAccount.toBase58()
+              ? {
+                  lamports: 2_039_280,
+                  owner: TOKEN_PROGRAM.toBase58(),
+                  data: [tokenAccountData(40n).toString("base64"), "base64"],
+                  executable: false,
+                }
+              : {
+                  lamports: balances.get(address)?.after ?? 0,
+                  owner: PublicKey.default.toBase58(),
+                  data: ["", "base64"],
+                  executable: false,
+                }
+          ),
+        },
+      })
+    ),
+    getMultipleAccountsInfo: vi.fn(async () => {
+      const data = Buffer.alloc(82);
+      data[44] = 6;
+      return [{ lamports: 1, owner: TOKEN_PROGRAM, data, executable: false }];
+    }),
+  };
+  return connection as typeof connection & Connection;
+}
+
+describe("simulateTransactionPreview", () => {
+  it("includes accounts loaded from address lookup tables", async () => {
+    const { table, transaction } = transferThroughLookupTable();
+    const connection = mockConnection(table);
+
+    const preview = await simulateTransactionPreview(
+      connection,
+      transaction,
+      owner
+    );
+
+    expect(connection.getAddressLookupTable).toHaveBeenCalledWith(tableKey);
+    expect(preview.partial).toBe(false);
+    expect(preview.solChange).toBe("-5000");
+    expect(preview.tokenChanges).toEqual([
+      {
+        mint: mint.toBase58(),
+        account: tokenAccount.toBase58(),
+        change: "-60",
+        decimals: 6,
+      },
+    ]);
+  });
+
+  it("marks the preview partial when the tables can't be loaded", async () => {
+    const { transaction } = transferThroughLookupTable();
+    const connection = mockConnection(new Error("RPC down"));
+
+    const preview = await simulateTransactionPreview(
+      connection,
+      transaction,
+      owner
+    );
+
+    expect(preview.partial).toBe(true);
+    expect(preview.solChange).toBe("-5000");
+    expect(preview.tokenChanges).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+// @vitest-environment jsdom
+import {
+  Keypair,
+  SystemProgram,
+  Transaction,
+  type PublicKey,
+} from "@solana/web3.js";
+import { verifyMessageSignature } from "@solana/wallet-standard-util";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  findHyperLinkError,
+  HyperLinkPopupBlockedError,
+  HyperLinkSigningError,
+  HyperLinkUserRejectedError,
+} from "../src/errors";
+import { HyperLinkWalletAdapter } from "../src/index";
+import type { RequestQueueState } from "../src/requestQueue";
+import {
+  HyperLinkHostSimulator,
+  type HyperLinkHostSimulatorOptions,
+} from "../src/simulator";
+
+function transfer(from: PublicKey) {
+  return new Transaction({
+    feePayer: from,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  }).add(
+    SystemProgram.transfer({
+      fromPubkey: from,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1,
+    })
+  );
+}
+
+describe("HyperLinkHostSimulator", () => {
+  let host: HyperLinkHostSimulator;
+  let adapter: HyperLinkWalletAdapter;
+
+  const createAdapter = (options?: HyperLinkHostSimulatorOptions) => {
+    host = new HyperLinkHostSimulator(options);
+    adapter = new HyperLinkWalletAdapter({
+      title: "Test dApp",
+      clientId: "test",
+      theme: "light",
+      transport: host,
+      logger: { level: "error" },
+    });
+  };
+
+  beforeEach(() => {
+    // the simulator stands in for the login popup
+    vi.spyOn(window, "open").mockReturnValue(null);
+    createAdapter();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("connects and signs", async () => {
+    await adapter.connect();
+    expect(adapter.publicKey?.toBase58()).toBe(host.publicKey);
+
+    const signed = await adapter.signTransaction(
+      transfer(host.keypair.publicKey)
+    );
+
+    expect(signed.verifySignatures()).toBe(true);
+  });
+
+  it("reports the request queue through the adapter", async () => {
+    await adapter.connect();
+    const states: RequestQueueState[] = [];
+    const unsubscribe = adapter.onRequestQueueChange((state) =>
+      states.push(state)
+    );
+
+    await adapter.signTransaction(transfer(host.keypair.publicKey));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    unsubscribe();
+
+    expect(states[0]?.current?.type).toBe("sign_transaction");
+    expect(states.at(-1)).toEqual({ length: 0, current: undefined });
+  });
+
+  it("rejects a transaction the user closes", async () => {
+    await adapter.connect();
+    host.signing = "reject";
+
+    const error = await adapter
+      .signTransaction(transfer(host.keypair.publicKey))
+      .catch((error) => error);
+
+    expect(findHyperLinkError(error)).toBeInstanceOf(
+      HyperLinkUserRejectedError
+    );
+    expect(host.received.map(({ type }) => type)).toContain("sign_transaction");
+  });
+
+  it("fails a transaction the wallet answers with sign_error", async () => {
+    await adapter.connect();
+    host.signing = "error";
+
+    const error = await adapter
+      .signTransaction(transfer(host.keypair.publicKey))
+      .catch((error) => error);
+
+    const cause = findHyperLinkError(error);
+    expect(cause).toBeInstanceOf(HyperLinkSigningError);
+    expect(cause?.message).toBe("Simulated signing error");
+  });
+
+  it("signs messages with the host keypair", async () => {
+    await adapter.connect();
+    const message = new TextEncoder().encode("hello from the dApp");
+
+    const signature = await adapter.signMessage(message);
+    const [batch] = await adapter.signAllMessages([message]);
+
+    for (const signed of [signature, batch]) {
+      expect(
+        verifyMessageSignature({
+          message,
+          signedMessage: message,
+          signature: signed as Uint8Array,
+          publicKey: host.keypair.publicKey.toBytes(),
+        })
+      ).toBe(true);
+    }
+  });
+
+  it("rejects a message the user closes", async () => {
+    await adapter.connect();
+    host.signing = "reject";
+
+    const error = await adapter
+      .signMessage(new TextEncoder().encode("hello"))
+      .catch((error) => error);
+
+    expect(findHyperLinkError(error)).toBeInstanceOf(
+      HyperLinkUserRejectedError
+    );
+  });
+
+  it("fails to connect when the user cancels the login", async () => {
+    createAdapter({ login: "cancel" });
+
+    await expect(adapter.connect()).rejects.toThrow();
+    expect(adapter.connected).toBe(false);
+  });
+
+  it("reports a blocked login popup the user doesn't continue past", async () => {
+    createAdapter({ login: "cancel" });
+
+    const error = await adapter.connect().catch((error) => error);
+
+    expect(window.open).toHaveBeenCalled();
+    expect(findHyperLinkError(error)).toBeInstanceOf(
+      HyperLinkPopupBlockedError
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import type { SolanaSignInInput } from "@solana/wallet-standard-features";
+import { createSignInMessage } from "@solana/wallet-standard-util";
+import bs58 from "bs58";
+import { Buffer } from "buffer";
+import { generateKeyPairSync, sign } from "crypto";
+import { describe, expect, it } from "vitest";
+import { verifySignInOutput, type HyperLinkSignInOutput } from "../src/siws";
+
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+const publicKeyBytes = new Uint8Array(
+  Buffer.from(publicKey.export({ format: "jwk" }).x as string, "base64url")
+);
+const address = bs58.encode(publicKeyBytes);
+const now = new Date("2026-01-01T00:05:00.000Z");
+
+const expected: SolanaSignInInput = {
+  domain: "dapp.example",
+  address,
+  statement: "Sign in to the dApp",
+  uri: "https://dapp.example",
+  version: "1",
+  chainId: "mainnet",
+  nonce: "backendNonce123",
+  issuedAt: "2026-01-01T00:00:00.000Z",
+  expirationTime: "2026-01-01T00:10:00.000Z",
+  resources: ["https://dapp.example/terms"],
+};
+
+function signIn(
+  input: Partial<SolanaSignInInput> = {},
+  extraInfo?: unknown
+): HyperLinkSignInOutput {
+  const signedMessage = createSignInMessage({ ...expected, ...input, address });
+  return {
+    account: {
+      address,
+      publicKey: publicKeyBytes,
+      chains: ["solana:mainnet"],
+      features: [],
+    },
+    signedMessage,
+    signature: new Uint8Array(sign(null, signedMessage, privateKey)),
+    extraInfo,
+  };
+}
+
+function failedChecks(output: HyperLinkSignInOutput, options = {}) {
+  return verifySignInOutput(expected, output, { now, ...options }).failures.map(
+    ({ check }) => check
+  );
+}
+
+describe("verifySignInOutput", () => {
+  it("accepts a sign-in that matches the input", () => {
+    const verification = verifySignInOutput(expected, signIn(), { now });
+
+    expect(verification).toEqual({
+      valid: true,
+      failures: [],
+      fields: expect.objectContaining({ domain: "dapp.example", address }),
+    });
+  });
+
+  it("rejects a message that doesn't match the input", () => {
+    const verification = verifySignInOutput(
+      expected,
+      signIn({
+        domain: "evil.example",
+        nonce: "replayedNonce",
+        resources: ["https://evil.example"],
+      }),
+      { now }
+    );
+
+    expect(verification.valid).toBe(false);
+    expect(verification.failures).toEqual([
+      {
+        check: "domain",
+        reason: 'expected "dapp.example", got "evil.example"',
+      },
+      {
+        check: "nonce",
+        reason: 'expected "backendNonce123", got "replayedNonce"',
+      },
+      {
+        check: "resources",
+        reason:
+          "missing https://dapp.example/terms; unexpected https://evil.example",
+      },
+    ]);
+  });
+
+  it("rejects a signature that isn't over the message", () => {
+    const output = signIn();
+    output.signature = signIn({ nonce: "otherNonce" }).signature;
+
+    expect(failedChecks(output)).toEqual(["signature"]);
+  });
+
+  it("rejects a message signed for another account", () => {
+    const other = generateKeyPairSync("ed25519");
+    const output = signIn();
+    output.account = {
+      ...output.account,
+      publicKey: new Uint8Array(
+        Buffer.from(
+          other.publicKey.export({ format: "jwk" }).x as string,
+          "base64url"
+        )
+      ),
+    };
+
+    expect(failedChecks(output)).toEqual(["signature", "address"]);
+  });
+
+  it("rejects messages that aren't sign-in messages", () => {
+    const output = signIn();
+    output.signedMessage = new TextEncoder().encode("hello");
+
+    const verification = verifySignInOutput(expected, output, { now });
+
+    expect(verification.fields).toBeNull();
+    expect(verification.failures.map(({ check }) => check)).toEqual([
+      "signature",
+      "message",
+    ]);
+  });
+
+  it("checks the time window with the clock skew", () => {
+    expect(
+      failedChecks(signIn(), { now: new Date("2026-01-01T00:10:30.000Z") })
+    ).toEqual([]);
+    expect(
+      failedChecks(signIn(), { now: new Date("2026-01-01T00:11:30.000Z") })
+    ).toEqual(["expirationTime"]);
+    expect(
+      failedChecks(signIn(), {
+        now: new Date("2025-12-31T23:58:00.000Z"),
+      })
+    ).toEqual(["issuedAt"]);
+    expect(failedChecks(signIn(), { maxAgeMs: 60_000 })).toEqual(["issuedAt"]);
+  });
+
+  it("checks extraInfo", () => {
+    const output = signIn({}, { plan: "pro", region: "eu" });
+
+    expect(failedChecks(output, { extraInfo: { plan: "pro" } })).toEqual([]);
+    expect(failedChecks(output, { extraInfo: { plan: "free" } })).toEqual([
+      "extraInfo",
+    ]);
+    expect(failedChecks(output, { extraInfo: () => false })).toEqual([
+      "extraInfo",
+    ]);
+    expect(failedChecks(signIn({}, "pro"))).toEqual(["extraInfo"]);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { describe, expect, it } from "vitest";
+import { diffTransactionMessages } from "../src/transactionDiff";
+
+const payer = Keypair.generate().publicKey;
+const recentBlockhash = Keypair.generate().publicKey.toBase58();
+const programId = Keypair.generate().publicKey;
+const tableAddresses = Array.from(
+  { length: 4 },
+  () => Keypair.generate().publicKey
+);
+const lookupTable = new AddressLookupTableAccount({
+  key: Keypair.generate().publicKey,
+  state: {
+    deactivationSlot: BigInt("18446744073709551615"),
+    lastExtendedSlot: 0,
+    lastExtendedSlotStartIndex: 0,
+    addresses: tableAddresses,
+  },
+});
+
+function programInstruction(writable: PublicKey, readonly: PublicKey) {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: writable, isSigner: false, isWritable: true },
+      { pubkey: readonly, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([1, 2, 3]),
+  });
+}
+
+function v0(instructions: TransactionInstruction[]) {
+  return new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash,
+      instructions,
+    }).compileToV0Message([lookupTable])
+  );
+}
+
+function legacy(instructions: TransactionInstruction[]) {
+  return new Transaction({ feePayer: payer, recentBlockhash }).add(
+    ...instructions
+  );
+}
+
+const transfer = SystemProgram.transfer({
+  fromPubkey: payer,
+  toPubkey: Keypair.generate().publicKey,
+  lamports: 1,
+});
+
+describe("diffTransactionMessages", () => {
+  it("finds no changes in an identical transaction", () => {
+    const instruction = programInstruction(
+      tableAddresses[0],
+      tableAddresses[1]
+    );
+    expect(
+      diffTransactionMessages(v0([instruction]), v0([instruction]))
+    ).toEqual([]);
+    expect(
+      diffTransactionMessages(legacy([transfer]), legacy([transfer]))
+    ).toEqual([]);
+  });
+
+  it("reports added instructions and accounts", () => {
+    const changes = diffTransactionMessages(
+      legacy([transfer]),
+      legacy([transfer, programInstruction(payer, programId)])
+    );
+    expect(changes.map(({ field }) => field)).toContain("instructions");
+    expect(changes.map(({ field }) => field)).toContain("accounts");
+  });
+
+  it("reports a changed blockhash", () => {
+    const returned = legacy([transfer]);
+    returned.recentBlockhash = Keypair.generate().publicKey.toBase58();
+    expect(diffTransactionMessages(legacy([transfer]), returned)).toEqual([
+      expect.objectContaining({ field: "blockhash" }),
+    ]);
+  });
+
+  it("allows any change when allowed is true", () => {
+    expect(
+      diffTransactionMessages(
+        legacy([transfer]),
+        legacy([transfer, programInstruction(payer, programId)]),
+        true
+      )
+    ).toEqual([]);
+  });
+
+  it("allows added compute budget instructions in a v0 transaction using lookup tables", () => {
+    const instruction = programInstruction(
+      tableAddresses[0],
+      tableAddresses[1]
+    );
+    const sent = v0([instruction]);
+    const returned = v0([
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000 }),
+      instruction,
+    ]);
+    // the new static key shifts the lookup table accounts
+    expect(returned.message.staticAccountKeys.length).toBe(
+      sent.message.staticAccountKeys.length + 1
+    );
+    expect(diffTransactionMessages(sent, returned, "computeBudget")).toEqual(
+      []
+    );
+    expect(
+      diffTransactionMessages(sent, returned).map(({ field }) => field)
+    ).toEqual(["accounts", "instructions"]);
+  });
+
+  it("still reports a swapped lookup table account", () => {
+    const sent = v0([programInstruction(tableAddresses[0], tableAddresses[1])]);
+    const returned = v0([
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000 }),
+      programInstruction(tableAddresses[2], tableAddresses[1]),
+    ]);
+    const changes = diffTransactionMessages(sent, returned, "computeBudget");
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        field: "instructions",
+        detail: expect.stringContaining(`${lookupTable.key.toBase58()}[2]`),
+      })
+    );
+  });
+});
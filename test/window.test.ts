@@ -0,0 +1,216 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HYPERLINK_BUILD_ENV } from "../src/interfaces";
+import { ENVELOPE_PROTOCOL_VERSION } from "../src/protocol";
+import { createEnvelope, type SessionIds } from "../src/replay";
+import type {
+  HyperLinkTransport,
+  TransportMessageEvent,
+} from "../src/transport";
+import { CallbackType, PopupMonitor, WindowCommunicator } from "../src/window";
+
+const ORIGIN = "https://wallet.example";
+const session: SessionIds = {
+  dAppSessionId: "dapp",
+  hyperLinkSessionId: "hyperlink",
+};
+
+class FakeTransport implements HyperLinkTransport {
+  readonly origin = ORIGIN;
+  readonly posted: unknown[] = [];
+  private listener: ((event: TransportMessageEvent) => void) | undefined;
+
+  readonly transferred: Transferable[] = [];
+
+  post(target: Window, data: unknown, transfer: Transferable[] = []): void {
+    this.posted.push(data);
+    this.transferred.push(...transfer);
+  }
+
+  listen(listener: (event: TransportMessageEvent) => void): () => void {
+    this.listener = listener;
+    return () => {
+      this.listener = undefined;
+    };
+  }
+
+  deliver(data: unknown, origin = ORIGIN, source?: Window | null) {
+    this.listener?.({ origin, data, source });
+  }
+}
+
+describe("WindowCommunicator", () => {
+  let iframe: HTMLIFrameElement;
+  let transport: FakeTransport;
+  let communicator: WindowCommunicator;
+  let received: unknown[];
+
+  beforeEach(() => {
+    iframe = document.createElement("iframe");
+    iframe.name = "hyperlink-iframe";
+    document.body.appendChild(iframe);
+    transport = new FakeTransport();
+    communicator = new WindowCommunicator(
+      HYPERLINK_BUILD_ENV.PRODUCTION,
+      () => undefined,
+      transport
+    );
+    communicator.setSession(session);
+    received = [];
+    communicator.setupHandshakeWithIframe(
+      iframe,
+      {
+        public_key: {
+          type: CallbackType.DEFAULT,
+          cb: async (data) => {
+            received.push(data);
+          },
+        },
+      },
+      []
+    );
+  });
+
+  afterEach(() => {
+    iframe.remove();
+  });
+
+  const publicKey = (extra: object = {}) => ({
+    type: "public_key",
+    publicKey: "key",
+    windowName: iframe.name,
+    ...extra,
+  });
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it("stamps outgoing messages with an envelope", () => {
+    communicator.singlePostToWindow(iframe.contentWindow!, {
+      type: "disconnect",
+    });
+    expect(transport.posted[0]).toMatchObject({
+      type: "disconnect",
+      ...session,
+      nonce: expect.any(String),
+      timestamp: expect.any(Number),
+    });
+  });
+
+  it("ignores messages from untrusted origins", async () => {
+    transport.deliver(
+      publicKey(createEnvelope(session)),
+      "https://evil.example"
+    );
+    await flush();
+    expect(received).toEqual([]);
+  });
+
+  it("drops replayed envelopes", async () => {
+    const message = publicKey(createEnvelope(session));
+    transport.deliver(message);
+    transport.deliver(message);
+    await flush();
+    expect(received).toHaveLength(1);
+  });
+
+  it("accepts messages without an envelope from older iframes", async () => {
+    communicator.setProtocolVersion(ENVELOPE_PROTOCOL_VERSION - 1);
+    transport.deliver(publicKey());
+    await flush();
+    expect(received).toHaveLength(1);
+  });
+
+  it("requires envelopes and session ids once the protocol has them", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    communicator.setProtocolVersion(ENVELOPE_PROTOCOL_VERSION);
+    const { nonce, timestamp } = createEnvelope(session);
+    transport.deliver(publicKey());
+    transport.deliver(publicKey({ nonce, timestamp }));
+    transport.deliver(
+      publicKey(createEnvelope({ dAppSessionId: session.dAppSessionId }))
+    );
+    await flush();
+    expect(received).toEqual([]);
+
+    transport.deliver(publicKey(createEnvelope(session)));
+    await flush();
+    expect(received).toHaveLength(1);
+    warn.mockRestore();
+  });
+
+  it("only listens to the port once a MessagePort is open", async () => {
+    const iframeWindow = iframe.contentWindow!;
+    expect(
+      communicator.openMessagePort(iframeWindow, { type: "ack", title: "dApp" })
+    ).toBe(true);
+    const port = transport.transferred[0] as MessagePort;
+    try {
+      transport.deliver(
+        publicKey(createEnvelope(session)),
+        ORIGIN,
+        iframeWindow
+      );
+      await flush();
+      expect(received).toEqual([]);
+
+      port.postMessage(publicKey(createEnvelope(session)));
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+
+      // other windows, e.g. the login popup, still use postMessage
+      transport.deliver(publicKey(createEnvelope(session)), ORIGIN, window);
+      await flush();
+      expect(received).toHaveLength(2);
+    } finally {
+      communicator.closeMessagePort(iframeWindow);
+      port.close();
+    }
+  });
+});
+
+describe("PopupMonitor", () => {
+  const popup = { closed: false } as Window;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    popup.closed = false;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports a popup that never opened as blocked", () => {
+    const monitor = new PopupMonitor(null);
+
+    expect(monitor.blocked).toBe(true);
+    expect(monitor.isDisposed).toBe(true);
+  });
+
+  it("emits closed once and disposes itself", () => {
+    const monitor = new PopupMonitor(popup, 100);
+    const closed = vi.fn();
+    monitor.on("closed", closed);
+
+    vi.advanceTimersByTime(100);
+    expect(closed).not.toHaveBeenCalled();
+    popup.closed = true;
+    vi.advanceTimersByTime(300);
+
+    expect(closed).toHaveBeenCalledTimes(1);
+    expect(monitor.isDisposed).toBe(true);
+  });
+
+  it("emits focusLost when the dApp window takes focus back", () => {
+    const monitor = new PopupMonitor(popup);
+    const focusLost = vi.fn();
+    monitor.on("focusLost", focusLost);
+
+    window.dispatchEvent(new Event("focus"));
+    expect(focusLost).toHaveBeenCalledTimes(1);
+
+    monitor.dispose();
+    monitor.on("focusLost", focusLost);
+    window.dispatchEvent(new Event("focus"));
+    expect(focusLost).toHaveBeenCalledTimes(1);
+  });
+});